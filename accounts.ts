@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseEnv } from 'dotenv';
+
+/**
+ * Профиль аккаунта TargetHunter на диске
+ * accounts/<имя>/session — сессия браузера и чекпоинт,
+ * accounts/<имя>/output — выгрузки,
+ * accounts/<имя>/account.env — необязательные настройки аккаунта (формат .env)
+ */
+interface AccountInfo {
+  name: string;
+  dir: string;
+  sessionDir: string;
+  outputDir: string;
+  settingsFile: string;
+  /** Когда последний раз сохранялась сессия (null — вход ещё не выполнялся) */
+  sessionSavedAt: string | null;
+  /** Настройки из account.env */
+  settings: Record<string, string>;
+}
+
+/** Имя профиля попадает в путь — только безопасные символы */
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+/**
+ * Профили аккаунтов в общей папке (по умолчанию ./accounts)
+ */
+class AccountProfiles {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir;
+  }
+
+  static isValidName(name: string): boolean {
+    return ACCOUNT_NAME_PATTERN.test(name);
+  }
+
+  /**
+   * Пути профиля (папки не создаются)
+   */
+  paths(name: string): Pick<AccountInfo, 'dir' | 'sessionDir' | 'outputDir' | 'settingsFile'> {
+    const dir = path.join(this.rootDir, name);
+    return {
+      dir,
+      sessionDir: path.join(dir, 'session'),
+      outputDir: path.join(dir, 'output'),
+      settingsFile: path.join(dir, 'account.env'),
+    };
+  }
+
+  exists(name: string): boolean {
+    return fs.existsSync(this.paths(name).dir);
+  }
+
+  /**
+   * Настройки аккаунта из account.env
+   */
+  readSettings(name: string): Record<string, string> {
+    const { settingsFile } = this.paths(name);
+    return fs.existsSync(settingsFile) ? parseEnv(fs.readFileSync(settingsFile)) : {};
+  }
+
+  /**
+   * Переменные окружения прогона под профилем: пути сессии и выгрузок, затем настройки аккаунта
+   */
+  environment(name: string): NodeJS.ProcessEnv {
+    const { sessionDir, outputDir } = this.paths(name);
+    return {
+      SESSION_PATH: sessionDir,
+      OUTPUT_FILE: path.join(outputDir, 'bothunter_results.json'),
+      ...this.readSettings(name),
+    };
+  }
+
+  get(name: string): AccountInfo | null {
+    if (!this.exists(name)) return null;
+
+    const paths = this.paths(name);
+    const stateFile = path.join(paths.sessionDir, 'state.json');
+    return {
+      name,
+      ...paths,
+      sessionSavedAt: fs.existsSync(stateFile) ? fs.statSync(stateFile).mtime.toISOString() : null,
+      settings: this.readSettings(name),
+    };
+  }
+
+  /**
+   * Все профили по алфавиту
+   */
+  list(): AccountInfo[] {
+    if (!fs.existsSync(this.rootDir)) return [];
+
+    return fs.readdirSync(this.rootDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && AccountProfiles.isValidName(entry.name))
+      .map(entry => this.get(entry.name)!)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Удаление профиля вместе с сессией и выгрузками
+   * @returns {boolean} false если профиля не было
+   */
+  remove(name: string): boolean {
+    if (!AccountProfiles.isValidName(name) || !this.exists(name)) return false;
+    fs.rmSync(this.paths(name).dir, { recursive: true, force: true });
+    return true;
+  }
+}
+
+export { AccountProfiles };
+export type { AccountInfo };
@@ -0,0 +1,391 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { ParserConfig, ParseProgress } from './bothunter-vk-simple';
+import type { RunReport, RunReportData } from './run-report';
+import { parseCommandLine, configArgv, CliUsageError } from './cli';
+
+/**
+ * Состояние задания: succeeded — без сбоев, partial — часть элементов пропущена после сбоя
+ */
+type JobStatus = 'queued' | 'running' | 'succeeded' | 'partial' | 'failed' | 'cancelled';
+
+/** Режимы, которые можно запустить через API */
+const JOB_MODES = ['contacts', 'groups', 'lists', 'group-lists', 'inventory'] as const;
+
+/** Настройки, которые задание может переопределить; остальные берутся у сервера */
+const JOB_OPTION_KEYS = ['account', 'maxPages', 'listFilters', 'groupFilters', 'groupExcludeFilters', 'outputFormats', 'resume', 'diff', 'concurrency'] as const;
+
+/**
+ * Параметры задания в теле POST /jobs
+ */
+interface JobOptions {
+  mode: typeof JOB_MODES[number];
+  account?: string;
+  maxPages?: number;
+  listFilters?: string[];
+  groupFilters?: string[];
+  groupExcludeFilters?: string[];
+  outputFormats?: string[];
+  resume?: boolean;
+  diff?: boolean;
+  concurrency?: number;
+}
+
+/**
+ * Задание очереди
+ */
+interface ScrapeJob {
+  id: string;
+  status: JobStatus;
+  options: JobOptions;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Прогресс (у выполняющегося — живой, у завершённого — последний снимок) */
+  progress: ParseProgress | null;
+  /** Отчёт прогона, если parse() завершился */
+  report: RunReportData | null;
+  error: string | null;
+  /** Папка выгрузок задания */
+  outputDir: string;
+}
+
+/**
+ * Что выполняет задание (BotHunterVKParser или подмена в тестах)
+ */
+interface JobRunner {
+  parse(): Promise<RunReport>;
+  cancel(): void;
+  getProgress(): ParseProgress;
+}
+
+interface JobQueueOptions {
+  /** Флаги сервера: задание получает их, затем свои параметры */
+  baseArgv: string[];
+  env: NodeJS.ProcessEnv;
+  createRunner: (config: ParserConfig) => JobRunner;
+}
+
+/**
+ * Очередь заданий: прогоны выполняются строго по одному,
+ * чтобы не делить сессию браузера между несколькими парсерами
+ */
+class JobQueue {
+  private jobs: ScrapeJob[] = [];
+  private configs = new Map<string, ParserConfig>();
+  private running: { job: ScrapeJob; runner: JobRunner; cancelRequested: boolean; done: Promise<void> } | null = null;
+  private options: JobQueueOptions;
+
+  constructor(options: JobQueueOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Постановка задания в очередь
+   * @throws {CliUsageError} Если параметры задания некорректны
+   */
+  submit(input: unknown): ScrapeJob {
+    const options = this.validate(input);
+    const id = randomUUID();
+
+    // Флаги задания идут после флагов сервера и перекрывают их
+    const { mode, ...overrides } = options;
+    const argv = [mode, ...this.options.baseArgv, ...configArgv(overrides)];
+    const config = parseCommandLine(argv, this.options.env).config;
+    const outputDir = path.join(path.dirname(config.outputFile || 'bothunter_results.json'), 'jobs', id);
+
+    const job: ScrapeJob = {
+      id,
+      status: 'queued',
+      options,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      progress: null,
+      report: null,
+      error: null,
+      outputDir,
+    };
+    this.configs.set(id, {
+      ...config,
+      // Войти через ВК в фоне некому — истёкшая сессия должна ронять задание, а не ждать
+      headless: true,
+      outputFile: path.join(outputDir, path.basename(config.outputFile || 'bothunter_results.json')),
+      // У задания и так своя папка, а GET /jobs/:id/files отдаёт только её файлы
+      runDirs: false,
+    });
+    this.jobs.push(job);
+    void this.drain();
+
+    return job;
+  }
+
+  /**
+   * Задание с живым прогрессом
+   */
+  get(id: string): ScrapeJob | null {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) return null;
+    if (this.running?.job === job) {
+      job.progress = this.running.runner.getProgress();
+    }
+    return job;
+  }
+
+  /**
+   * Все задания, новые в конце
+   */
+  list(): ScrapeJob[] {
+    return this.jobs.map(j => this.get(j.id)!);
+  }
+
+  /**
+   * Отмена: ожидающее снимается с очереди, выполняющееся останавливается после текущей страницы
+   * @returns {ScrapeJob | null} null если задания нет
+   */
+  cancel(id: string): ScrapeJob | null {
+    const job = this.get(id);
+    if (!job) return null;
+
+    if (job.status === 'queued') {
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+    } else if (this.running?.job === job) {
+      this.running.cancelRequested = true;
+      this.running.runner.cancel();
+    }
+    return job;
+  }
+
+  /**
+   * Файлы выгрузки задания
+   */
+  files(id: string): { name: string; size: number; modifiedAt: string }[] | null {
+    const job = this.get(id);
+    if (!job) return null;
+    if (!fs.existsSync(job.outputDir)) return [];
+
+    return fs.readdirSync(job.outputDir, { withFileTypes: true })
+      .filter(entry => entry.isFile())
+      .map(entry => {
+        const stat = fs.statSync(path.join(job.outputDir, entry.name));
+        return { name: entry.name, size: stat.size, modifiedAt: stat.mtime.toISOString() };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Путь файла задания; только имена из папки задания, без подкаталогов
+   */
+  filePath(id: string, name: string): string | null {
+    const job = this.get(id);
+    if (!job || path.basename(name) !== name || name.startsWith('.')) return null;
+
+    const filePath = path.join(job.outputDir, name);
+    return fs.existsSync(filePath) && fs.statSync(filePath).isFile() ? filePath : null;
+  }
+
+  /**
+   * Остановка: ожидающие отменяются, выполняющееся доводится до сохранения и закрытия браузера
+   */
+  async shutdown(): Promise<void> {
+    this.jobs.filter(j => j.status === 'queued').forEach(j => this.cancel(j.id));
+    if (this.running) {
+      const { job, done } = this.running;
+      this.cancel(job.id);
+      await done;
+    }
+  }
+
+  private validate(input: unknown): JobOptions {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new CliUsageError('ожидается JSON-объект с параметрами задания');
+    }
+
+    const options = input as Record<string, unknown>;
+    if (!JOB_MODES.includes(options.mode as JobOptions['mode'])) {
+      throw new CliUsageError(`mode: ожидается одно из ${JOB_MODES.join(', ')}`);
+    }
+
+    const unknown = Object.keys(options).filter(k => k !== 'mode' && !(JOB_OPTION_KEYS as readonly string[]).includes(k));
+    if (unknown.length > 0) {
+      throw new CliUsageError(`неизвестные параметры: ${unknown.join(', ')} (доступны: mode, ${JOB_OPTION_KEYS.join(', ')})`);
+    }
+
+    return options as unknown as JobOptions;
+  }
+
+  /**
+   * Выполнение очереди по одному заданию
+   */
+  private async drain(): Promise<void> {
+    if (this.running) return;
+
+    const job = this.jobs.find(j => j.status === 'queued');
+    if (!job) return;
+
+    let finish!: () => void;
+    const done = new Promise<void>(resolve => (finish = resolve));
+    let runner: JobRunner | null = null;
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+
+    try {
+      // Парсер проверяет настройки аккаунта (SITE_PROFILE, ключ шифрования) — их ошибка роняет задание, а не сервер
+      fs.mkdirSync(job.outputDir, { recursive: true });
+      runner = this.options.createRunner(this.configs.get(job.id)!);
+      this.running = { job, runner, cancelRequested: false, done };
+
+      const report = await runner.parse();
+      job.report = report.toJSON();
+      job.status = report.hasFailures ? 'partial' : 'succeeded';
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : String(error);
+      job.status = this.running?.cancelRequested ? 'cancelled' : 'failed';
+    } finally {
+      if (runner) job.progress = runner.getProgress();
+      job.finishedAt = new Date().toISOString();
+      this.configs.delete(job.id);
+      this.running = null;
+      finish();
+    }
+
+    void this.drain();
+  }
+}
+
+/** Предел тела запроса: параметры задания небольшие */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * HTTP-ошибка с кодом ответа
+ */
+class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Локальный REST API поверх очереди заданий
+ *
+ * POST /jobs                      — поставить задание { mode, account?, maxPages?, listFilters?, ... }
+ * GET  /jobs                      — все задания
+ * GET  /jobs/:id                  — состояние, прогресс и отчёт
+ * POST /jobs/:id/cancel           — отмена
+ * GET  /jobs/:id/files            — файлы выгрузки
+ * GET  /jobs/:id/files/:name      — скачать файл
+ */
+class ApiServer {
+  private queue: JobQueue;
+  private server: http.Server;
+
+  constructor(queue: JobQueue) {
+    this.queue = queue;
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        const status = error instanceof ApiError ? error.status : error instanceof CliUsageError ? 400 : 500;
+        if (status === 500) console.error('❌ HTTP API:', error);
+        this.sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+  }
+
+  /**
+   * @returns {Promise<string>} Адрес сервера
+   */
+  async listen(port: number, host = '127.0.0.1'): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close(e => (e ? reject(e) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = req.method || 'GET';
+
+    if (parts[0] !== 'jobs') {
+      throw new ApiError(404, 'не найдено');
+    }
+
+    if (parts.length === 1) {
+      if (method === 'GET') return this.sendJson(res, 200, this.queue.list());
+      if (method === 'POST') return this.sendJson(res, 202, this.queue.submit(await this.readJson(req)));
+      throw new ApiError(405, 'метод не поддерживается');
+    }
+
+    const id = parts[1];
+    const job = this.queue.get(id);
+    if (!job) throw new ApiError(404, `задание ${id} не найдено`);
+
+    if (parts.length === 2 && method === 'GET') {
+      return this.sendJson(res, 200, job);
+    }
+    if (parts.length === 3 && parts[2] === 'cancel' && method === 'POST') {
+      return this.sendJson(res, 200, this.queue.cancel(id));
+    }
+    if (parts[2] === 'files' && method === 'GET') {
+      if (parts.length === 3) return this.sendJson(res, 200, this.queue.files(id));
+      if (parts.length === 4) return this.sendFile(res, id, parts[3]);
+    }
+
+    throw new ApiError(404, 'не найдено');
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) throw new ApiError(413, 'слишком большое тело запроса');
+    }
+
+    try {
+      return body ? JSON.parse(body) : {};
+    } catch {
+      throw new ApiError(400, 'тело запроса — не JSON');
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+    res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(data, null, 2));
+  }
+
+  private sendFile(res: http.ServerResponse, id: string, name: string): void {
+    const filePath = this.queue.filePath(id, name);
+    if (!filePath) throw new ApiError(404, `файл ${name} не найден`);
+
+    const type = name.endsWith('.json') ? 'application/json' : /\.(txt|csv)$/.test(name) ? 'text/plain' : 'application/octet-stream';
+    res.writeHead(200, {
+      'content-type': `${type}; charset=utf-8`,
+      'content-disposition': `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+      'content-length': fs.statSync(filePath).size,
+    });
+    fs.createReadStream(filePath).pipe(res);
+  }
+}
+
+export { JobQueue, ApiServer };
+export type { JobOptions, JobStatus, ScrapeJob, JobRunner };
@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryStore } from './history-store';
+import { listIdsFiles, readIdsFile, slugifyLabel, sortableTimestamp, type IdsFileInfo } from './diff';
+import type { EncryptionKey } from './encryption';
+
+/**
+ * Узел выражения аудитории: операнд или операция над двумя подвыражениями
+ * | — объединение, & — пересечение, - — разность
+ */
+type AudienceNode =
+  | { op: 'operand'; name: string }
+  | { op: '|' | '&' | '-'; left: AudienceNode; right: AudienceNode };
+
+/**
+ * Найденный операнд: откуда взяты ID и сколько их
+ */
+interface ResolvedOperand {
+  name: string;
+  /** Файл выгрузки или снимок истории (#id, подпись, дата) */
+  source: string;
+  ids: Set<string>;
+}
+
+interface AudienceSourceOptions {
+  /** Папка выгрузок bothunter_ids_*.txt */
+  outDir: string;
+  /** База истории; пусто — только файлы */
+  historyDb?: string;
+  /** Брать выгрузки и снимки не позже этой даты (ISO) */
+  at?: string;
+  /** Ключ для зашифрованных выгрузок */
+  encryption?: EncryptionKey | null;
+}
+
+/**
+ * Ошибка в выражении или операнде
+ */
+class AudienceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudienceError';
+  }
+}
+
+/**
+ * Разбиение выражения на лексемы
+ * Минус — оператор, только если стоит отдельно: list_a-b — одна подпись, list_a - b — разность
+ */
+function tokenize(expression: string): string[] {
+  const source = expression.trim();
+  const tokens: string[] = [];
+  const re = /\s*(?:([()&|+])|(-)(?=[\s("']|$)|"([^"]*)"|'([^']*)'|([^\s()&|+"']+))/y;
+
+  while (re.lastIndex < source.length) {
+    const start = re.lastIndex;
+    const m = re.exec(source);
+    if (!m) throw new AudienceError(`не понимаю выражение с позиции ${start + 1}: ${source.slice(start)}`);
+
+    if (m[1] || m[2]) {
+      tokens.push(m[1] === '+' ? '|' : m[1] || m[2]);
+    } else {
+      // Операнды помечаем префиксом, чтобы подпись "&" в кавычках не стала оператором
+      const name = (m[3] ?? m[4] ?? m[5]).trim();
+      if (!name) throw new AudienceError('пустой операнд в кавычках');
+      tokens.push(`=${name}`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Разбор выражения аудитории
+ * & выполняется раньше |, + и -, остальные операции — слева направо; скобки меняют порядок
+ * @throws {AudienceError} Если выражение некорректно
+ */
+function parseAudienceExpression(expression: string): AudienceNode {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const operand = (): AudienceNode => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new AudienceError('выражение обрывается: ожидается операнд');
+    if (token === '(') {
+      const node = union();
+      if (tokens[pos++] !== ')') throw new AudienceError('не хватает закрывающей скобки');
+      return node;
+    }
+    if (!token.startsWith('=')) throw new AudienceError(`ожидается операнд, получено "${token}"`);
+    return { op: 'operand', name: token.slice(1) };
+  };
+
+  const intersection = (): AudienceNode => {
+    let node = operand();
+    while (tokens[pos] === '&') {
+      pos++;
+      node = { op: '&', left: node, right: operand() };
+    }
+    return node;
+  };
+
+  const union = (): AudienceNode => {
+    let node = intersection();
+    while (tokens[pos] === '|' || tokens[pos] === '-') {
+      const op = tokens[pos++] as '|' | '-';
+      node = { op, left: node, right: intersection() };
+    }
+    return node;
+  };
+
+  if (tokens.length === 0) throw new AudienceError('пустое выражение');
+  const root = union();
+  if (pos < tokens.length) {
+    const token = tokens[pos];
+    throw new AudienceError(token.startsWith('=') ? `между операндами нет оператора (перед "${token.slice(1)}")` : `лишнее "${token}"`);
+  }
+  return root;
+}
+
+/**
+ * Операнды выражения без повторов, в порядке появления
+ */
+function audienceOperands(node: AudienceNode): string[] {
+  if (node.op === 'operand') return [node.name];
+  return Array.from(new Set([...audienceOperands(node.left), ...audienceOperands(node.right)]));
+}
+
+/**
+ * Вычисление выражения по уже найденным операндам
+ */
+function evaluateAudience(node: AudienceNode, operands: Map<string, Set<string>>): Set<string> {
+  if (node.op === 'operand') {
+    const ids = operands.get(node.name);
+    if (!ids) throw new AudienceError(`операнд "${node.name}" не найден`);
+    return ids;
+  }
+
+  const left = evaluateAudience(node.left, operands);
+  const right = evaluateAudience(node.right, operands);
+  if (node.op === '|') return new Set([...left, ...right]);
+  if (node.op === '&') return new Set([...left].filter(id => right.has(id)));
+  return new Set([...left].filter(id => !right.has(id)));
+}
+
+/**
+ * Источник операндов: txt-выгрузки и снимки истории
+ * - #12 — снимок истории по номеру
+ * - путь к .txt — этот файл
+ * - подпись (list_Одобрен, group_Name) — последняя выгрузка с этой подписью, а если её нет — последний снимок
+ *   истории; если точного совпадения нет, подходит единственная подпись, которая с этого начинается
+ */
+class AudienceSources {
+  private options: AudienceSourceOptions;
+  private store: HistoryStore | null = null;
+
+  constructor(options: AudienceSourceOptions) {
+    this.options = options;
+  }
+
+  /**
+   * @throws {AudienceError} Если операнд не найден или подходит к нескольким подписям
+   */
+  resolve(name: string): ResolvedOperand {
+    if (/^#\d+$/.test(name)) return this.fromSnapshotId(name);
+
+    if (name.endsWith('.txt') || name.includes('/') || name.includes(path.sep)) {
+      if (!fs.existsSync(name)) throw new AudienceError(`операнд "${name}": файл не найден`);
+      return { name, source: name, ids: new Set(readIdsFile(name, this.options.encryption)) };
+    }
+
+    const file = this.latestExport(name);
+    if (file) return { name, source: path.basename(file.filePath), ids: new Set(readIdsFile(file.filePath, this.options.encryption)) };
+
+    const store = this.openStore();
+    const snapshot = store?.latestSnapshot(name, this.options.at);
+    if (store && snapshot) {
+      return { name, source: `история #${snapshot.id} (${snapshot.taken_at})`, ids: new Set(store.getSnapshotIds(snapshot.id)) };
+    }
+
+    throw new AudienceError(`операнд "${name}": нет выгрузки в ${this.options.outDir || '.'}${store ? ' и снимка в истории' : ''}`);
+  }
+
+  close(): void {
+    this.store?.close();
+    this.store = null;
+  }
+
+  private fromSnapshotId(name: string): ResolvedOperand {
+    const store = this.openStore();
+    if (!store) throw new AudienceError(`операнд "${name}": база истории не найдена (HISTORY_DB)`);
+
+    const snapshot = store.getSnapshot(Number(name.slice(1)));
+    if (!snapshot) throw new AudienceError(`операнд "${name}": снимок не найден`);
+    return { name, source: `история ${snapshot.label} (${snapshot.taken_at})`, ids: new Set(store.getSnapshotIds(snapshot.id)) };
+  }
+
+  /**
+   * Последняя txt-выгрузка по подписи (с учётом --at), в том числе из папок прогонов
+   */
+  private latestExport(name: string): IdsFileInfo | null {
+    const at = this.options.at ? new Date(this.options.at) : null;
+    const files = listIdsFiles(this.options.outDir || '.')
+      .filter(info => !at || fileDate(info.timestamp) <= at);
+
+    // Длинная подпись в имени файла обрезана с хешем: слаг той же длины из полной подписи совпадает точно
+    const wanted = slugifyLabel(name, Infinity);
+    let matches = files.filter(info => info.slug === slugifyLabel(name, info.slug.length));
+    if (matches.length === 0) {
+      matches = files.filter(info => info.slug.startsWith(wanted));
+      const slugs = Array.from(new Set(matches.map(info => info.slug)));
+      if (slugs.length > 1) {
+        throw new AudienceError(`операнд "${name}" подходит к нескольким выгрузкам: ${slugs.join(', ')}`);
+      }
+    }
+
+    return matches.sort((a, b) => sortableTimestamp(b.timestamp).localeCompare(sortableTimestamp(a.timestamp)))[0] || null;
+  }
+
+  private openStore(): HistoryStore | null {
+    if (!this.store && this.options.historyDb && fs.existsSync(this.options.historyDb)) {
+      this.store = new HistoryStore(this.options.historyDb);
+    }
+    return this.store;
+  }
+}
+
+/**
+ * Метка ddMMyyyyHHmmss из имени файла как местное время
+ */
+function fileDate(ts: string): Date {
+  const n = (from: number, to: number) => Number(ts.slice(from, to));
+  return new Date(n(4, 8), n(2, 4) - 1, n(0, 2), n(8, 10), n(10, 12), n(12, 14));
+}
+
+export { AudienceSources, AudienceError, parseAudienceExpression, audienceOperands, evaluateAudience };
+export type { AudienceNode, ResolvedOperand, AudienceSourceOptions };
@@ -1,7 +1,36 @@
-import { chromium, type Browser, type Page } from 'playwright';
+import { chromium, type Browser, type ElementHandle, type Page } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
+import { EventEmitter } from 'events';
 import { config as loadEnv } from 'dotenv';
+import { RunCheckpoint } from './checkpoint';
+import { ResponseIdCollector, type IdStrategy } from './network-capture';
+import { addContacts, bareContact, type ContactRecord } from './contacts';
+import { resolveExporters, type Exporter } from './exporters';
+import { writeDiff, buildFileStem, formatFileTimestamp, type DiffSummary } from './diff';
+import { HistoryStore, type HistoryCommunity } from './history-store';
+import { parseCommandLine, helpText, CliUsageError } from './cli';
+import { runHistoryCommand } from './history';
+import { loadSiteProfile, buildDoctorChecks, type SiteProfile, type DoctorCheck } from './site-profile';
+import { RateLimiter } from './rate-limiter';
+import { withRetry } from './retry';
+import { RunReport, type ReportItem, type Completeness } from './run-report';
+import { AccountProfiles } from './accounts';
+import { JobQueue, ApiServer } from './api-server';
+import { JobScheduler } from './scheduler';
+import { Notifier, type ExportSummary } from './notifier';
+import { enableJsonLog, logParserEvents } from './json-log';
+import { AudienceSources, AudienceError, parseAudienceExpression, audienceOperands, evaluateAudience, type ResolvedOperand } from './audience';
+import { DEFAULT_LIST_FILTERS, matchListFilters, buildInventory, writeInventory } from './inventory';
+import { RunManifest } from './run-manifest';
+import {
+  EncryptionError, resolveEncryptionKey, readSecureFile, writeSecureFile, decryptBuffer, type EncryptionKey,
+} from './encryption';
+import { OverlapError, operandsFromRunReport, latestGroupsReport, buildOverlap, writeOverlap } from './overlap';
+import {
+  DEFAULT_IMPORT_BATCH_SIZE, ListImportError, readImportIds, chunkIds, parseImportMessage,
+  type ImportOptions, type ImportResult,
+} from './list-import';
 
 loadEnv();
 
@@ -20,7 +49,11 @@ interface CommunityData {
 interface ParseResult {
   community: CommunityData;
   userIds: string[];
+  /** Полные записи контактов (имя, профиль, дата подписки, теги, списки) */
+  contacts: ContactRecord[];
   totalUsers: number;
+  /** Сверка со счётчиком сайта */
+  completeness: Completeness | null;
   timestamp: string;
 }
 
@@ -28,41 +61,269 @@ interface ParseResult {
  * Конфигурация парсера
  */
 interface ParserConfig {
+  /** Профиль аккаунта (его пути уже подставлены в sessionPath и outputFile) */
+  account?: string;
+  /** Папка профилей аккаунтов */
+  accountsDir?: string;
   baseUrl: string;
   headless?: boolean;
   maxPages?: number;
+  /** Допустимое расхождение со счётчиком сайта, %: при большем недоборе короткие страницы перепроверяются */
+  rescanThreshold?: number;
   sessionPath?: string;
   outputFile?: string;
-  /** Режим работы парсера: contacts (по умолчанию) | groups | lists */
-  mode?: 'contacts' | 'groups' | 'lists';
+  /** Режим работы парсера: contacts (по умолчанию) | groups | lists | group-lists | inventory */
+  mode?: 'contacts' | 'groups' | 'lists' | 'group-lists' | 'inventory';
   /** Фильтры для названий списков на /contacts/lists */
   listFilters?: string[];
+  /** Сообщества режимов groups и group-lists: регулярное выражение по названию или ID из change_group_with_channel */
+  groupFilters?: string[];
+  /** Исключаемые сообщества: в том же виде, что и groupFilters */
+  groupExcludeFilters?: string[];
   /** Задержка после переключения сообщества (мс) */
   waitAfterSwitchMs?: number;
+  /** Продолжить прерванный прогон groups/lists с сохранённого чекпоинта */
+  resume?: boolean;
+  /** Откуда брать ID: network (ответы сервера, по умолчанию) | dom (текст страницы) */
+  idStrategy?: IdStrategy;
+  /** Дополнительные форматы выгрузки: csv, ndjson, vkads */
+  outputFormats?: string[];
+  /** Лимит размера одного файла аудитории VK Ads (байт) */
+  vkAdsMaxBytes?: number;
+  /** Вид строк в файле VK Ads: url (vk.com/idN) | id */
+  vkAdsIdStyle?: 'url' | 'id';
+  /** Сравнивать каждую выгрузку с предыдущей для той же подписи (added/removed) */
+  diff?: boolean;
+  /** Путь к SQLite-базе истории; не задан — история не ведётся */
+  historyDb?: string;
+  /** JSON с переопределением селекторов профиля сайта */
+  siteProfile?: string;
+  /** Записать все запросы прогона в HAR-файл (для офлайн-фикстур) */
+  recordHar?: string;
+  /** Отвечать на запросы из HAR-файла вместо сети */
+  replayHar?: string;
+  /** Сколько сообществ режима groups обрабатывать параллельно (каждое в своём контексте) */
+  concurrency?: number;
+  /** Интервал между запросами пагинации на все контексты (мс; фактически от N до 2N) */
+  requestIntervalMs?: number;
+  /** Повторы перехода, переключения сообщества и пагинации после сбоя */
+  retries?: number;
+  /** Пауза перед первым повтором (мс), дальше удваивается */
+  retryDelayMs?: number;
+  /** Адреса вебхуков: JSON с итогами прогона */
+  notifyWebhooks?: string[];
+  /** Бот и чат Telegram для сообщения об итогах */
+  telegramBotToken?: string;
+  telegramChatId?: string;
+  /** Адрес Bot API (совместимые сервисы и локальный Bot API server) */
+  telegramApiUrl?: string;
+  /** Прикладывать к уведомлениям файлы выгрузок */
+  notifyAttachFiles?: boolean;
+  /** Файл заданий планировщика (команда schedule) */
+  jobsFile?: string;
+  /** Порт локального HTTP API (команда serve) */
+  apiPort?: number;
+  /** Адрес, на котором слушает HTTP API */
+  apiHost?: string;
+  /** Вывод в консоль: text (по умолчанию) | json (JSON Lines с событиями парсера) */
+  logFormat?: 'text' | 'json';
+  /** Каждый прогон — в своей папке runs/<ts>_<режим> с manifest.json; указатели latest/ на последние выгрузки */
+  runDirs?: boolean;
+  /** Ключ шифрования сессии, чекпоинта и файлов с ID (строка) */
+  encryptionKey?: string;
+  /** Файл с ключом шифрования; важнее encryptionKey */
+  encryptionKeyFile?: string;
+}
+
+/**
+ * Элемент, который выгружается прямо сейчас
+ */
+interface ActiveItem {
+  kind: ReportItem['kind'];
+  key: string;
+  label: string;
+  /** Текущая страница пагинации (0 — контакты ещё не открыты) */
+  page: number;
+}
+
+/**
+ * Прогресс прогона для внешнего наблюдения (HTTP API)
+ */
+interface ParseProgress {
+  mode: string | null;
+  /** Сообществ или списков в прогоне (0 — ещё не известно) */
+  total: number;
+  /** Завершено, включая пропущенные по чекпоинту и сбойные */
+  done: number;
+  /** Что выгружается сейчас; при параллельной обработке — несколько сообществ */
+  active: ActiveItem[];
+}
+
+/**
+ * ID одной страницы контактов (событие idsFound и элементы stream())
+ */
+interface PageIds {
+  /** Ключ и подпись элемента: id сообщества, href списка или contacts */
+  key: string;
+  label: string;
+  page: number;
+  /** ID со страницы */
+  ids: string[];
+  /** Из них новых для элемента */
+  newIds: number;
+  /** Всего ID элемента после страницы */
+  total: number;
+}
+
+/**
+ * События парсера: имя → аргументы обработчика
+ * Рабочие парсеры параллельного режима генерируют события от имени основного
+ */
+interface ParserEvents {
+  groupStart: [{ id: string; name: string; index: number; total: number }];
+  listStart: [{ name: string; href: string; index: number; total: number; group: { id: string; name: string } | null }];
+  /** Страница контактов открыта, ID ещё не собраны */
+  page: [{ key: string; label: string; page: number }];
+  idsFound: [PageIds];
+  /** Выгрузка записана: txt и файлы OUTPUT_FORMATS */
+  itemSaved: [ExportSummary];
+  /** Нужен вход: в начале прогона (login) или сессия истекла посреди него */
+  authRequired: [{ reason: 'login' | 'session-expired'; action: string | null; headless: boolean }];
+  /** Сбой элемента (прогон идёт дальше) или всего прогона (fatal) */
+  error: [{ item: Pick<ActiveItem, 'kind' | 'key' | 'label'> | null; error: Error; fatal: boolean }];
+}
+
+/**
+ * Итог выгрузки одного сообщества или списка
+ */
+interface ItemOutcome {
+  ids: number;
+  pages: number;
+  file: string;
+  completeness: Completeness | null;
+}
+
+/**
+ * Сессия закончилась посреди прогона: сайт показывает страницу входа
+ * Без GUI войти заново некому — прогон прерывается, данные со страницы входа не сохраняются
+ */
+class SessionExpiredError extends Error {
+  constructor(action: string) {
+    super(`${action}: сессия истекла, сайт перенаправил на страницу входа`);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Прогон отменён вызовом cancel() — выгруженное до отмены остаётся на диске
+ */
+class RunCancelledError extends Error {
+  constructor() {
+    super('Прогон отменён');
+    this.name = 'RunCancelledError';
+  }
+}
+
+/** Сколько раз подряд можно войти заново ради одного сообщества или списка */
+const MAX_RELOGINS = 2;
+
+/**
+ * Общие параметры контекстов браузера (основного и рабочих в параллельном режиме)
+ */
+const BROWSER_CONTEXT_OPTIONS = {
+  viewport: { width: 1920, height: 1080 },
+  userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  locale: 'ru-RU',
+};
+
+/**
+ * Что сейчас выгружается: нужно для записи снимка в историю
+ */
+interface CollectTarget {
+  label: string;
+  community: HistoryCommunity;
+  list?: { name: string; href: string };
 }
 
 /**
  * Парсер BotHunter для ВК
  * Предназначен для автоматического сбора ID пользователей из сообществ ВКонтакте
+ * Ход прогона доступен через события (ParserEvents) и stream()
  */
-class BotHunterVKParser {
+class BotHunterVKParser extends EventEmitter<ParserEvents> {
   private browser: Browser | null = null;
   private page: Page | null = null;
   private config: ParserConfig;
   private userIds: Set<string> = new Set();
+  private contacts: Map<string, ContactRecord> = new Map();
   private communityData: CommunityData | null = null;
+  private checkpoint: RunCheckpoint | null = null;
+  private responseCollector: ResponseIdCollector;
+  private exporters: Exporter[];
+  private diffSummaries: DiffSummary[] = [];
+  /** Выгрузки прогона для уведомления */
+  private exports: ExportSummary[] = [];
+  private notifier: Notifier;
+  private history: HistoryStore | null = null;
+  private historyRunId: number | null = null;
+  private collectTarget: CollectTarget | null = null;
+  private profile: SiteProfile;
+  /** Ключ из encryptionKey/encryptionKeyFile; null — файлы пишутся как есть */
+  private encryption: EncryptionKey | null;
+  private rateLimiter: RateLimiter;
+  private report: RunReport | null = null;
+  /** Папка и манифест текущего прогона (RUN_DIRS=true) */
+  private runManifest: RunManifest | null = null;
+  /** Страниц, обработанных последним вызовом collectAllContactIds */
+  private pagesVisited = 0;
+  /** Сверка со счётчиком сайта после последнего вызова collectAllContactIds */
+  private completeness: Completeness | null = null;
+  /** Был редирект на страницу входа с момента последней успешной авторизации */
+  private loginRedirectSeen = false;
+  /** Сообщество, выбранное последним переключением (после повторного входа выбор не гарантирован) */
+  private selectedGroupId: string | null = null;
+  /** Общие с рабочими парсерами отмена и прогресс */
+  private cancellation = new AbortController();
+  private progress: ParseProgress = { mode: null, total: 0, done: 0, active: [] };
+  /** Элемент этого парсера в progress.active */
+  private activeItem: ActiveItem | null = null;
+  /** Кто генерирует события: у рабочих парсеров — основной */
+  private eventTarget: BotHunterVKParser = this;
 
   /**
    * Создает экземпляр парсера BotHunter
    * @param config - Конфигурация парсера
    */
   constructor(config: ParserConfig) {
+    super();
     this.config = {
       headless: false,
       outputFile: 'bothunter_results.json',
+      idStrategy: 'network',
       ...config,
       baseUrl: config.baseUrl || 'https://bot.targethunter.ru'
     };
+
+    this.profile = loadSiteProfile(this.config.siteProfile);
+    this.encryption = resolveEncryptionKey(this.config);
+    this.responseCollector = new ResponseIdCollector(new RegExp(this.profile.patterns.contactsResponseUrl, 'i'));
+
+    const interval = this.config.requestIntervalMs ?? 1000;
+    this.rateLimiter = new RateLimiter(interval, interval);
+
+    this.notifier = new Notifier({
+      webhooks: this.config.notifyWebhooks || [],
+      telegram: this.config.telegramBotToken && this.config.telegramChatId
+        ? { token: this.config.telegramBotToken, chatId: this.config.telegramChatId, apiUrl: this.config.telegramApiUrl || 'https://api.telegram.org' }
+        : null,
+      attachFiles: this.config.notifyAttachFiles ?? false,
+      retry: { retries: this.config.retries ?? 2, baseDelayMs: this.config.retryDelayMs ?? 2000 },
+    });
+
+    this.exporters = resolveExporters(this.config.outputFormats || [], {
+      maxBytes: this.config.vkAdsMaxBytes,
+      idStyle: this.config.vkAdsIdStyle,
+    });
   }
 
   /**
@@ -80,21 +341,32 @@ class BotHunterVKParser {
       slowMo: 50,
     });
 
+    const statePath = path.join(userDataDir, 'state.json');
     const context = await this.browser.newContext({
-      viewport: { width: 1920, height: 1080 },
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      locale: 'ru-RU',
-      storageState: fs.existsSync(`${userDataDir}/state.json`) 
-        ? `${userDataDir}/state.json` 
+      ...BROWSER_CONTEXT_OPTIONS,
+      // Зашифрованную сессию Playwright сам не прочитает — передаём уже разобранной
+      storageState: fs.existsSync(statePath) ? JSON.parse(readSecureFile(statePath, this.encryption)) : undefined,
+      recordHar: this.config.recordHar
+        ? { path: this.config.recordHar, content: 'embed' }
         : undefined,
     });
 
+    if (this.config.replayHar) {
+      await context.routeFromHAR(this.config.replayHar, { notFound: 'abort' });
+      console.log(`📼 Ответы берутся из HAR: ${this.config.replayHar}`);
+    }
+
     this.page = await context.newPage();
+    this.watchLoginRedirects(this.page);
+
+    if (this.config.idStrategy === 'network') {
+      this.responseCollector.attach(this.page);
+    }
 
     this.browser.on('disconnected', async () => {
       try {
         if (fs.existsSync(userDataDir)) {
-          await context.storageState({ path: `${userDataDir}/state.json` });
+          writeSecureFile(statePath, JSON.stringify(await context.storageState()), this.encryption);
         }
       } catch (e) {
         // контекст уже закрыт — игнорируем
@@ -112,18 +384,19 @@ class BotHunterVKParser {
     if (!this.page) return false;
 
     try {
-      await this.page.goto(this.config.baseUrl, { 
+      await this.page.goto(this.pageUrl('home'), { 
         waitUntil: 'domcontentloaded',
         timeout: 30000 
       });
 
-      const isLoggedIn = await this.page.evaluate(() => {
-        const hasUserMenu = document.querySelector('[class*="user"]') !== null;
-        const hasLogoutButton = document.querySelector('a[href*="logout"], button:has-text("Выход")') !== null;
-        const isOnLoginPage = window.location.pathname.includes('login');
+      const isLoggedIn = await this.page.evaluate((home) => {
+        const hasUserMenu = document.querySelector(home.userMenu) !== null;
+        const hasLogoutButton = document.querySelector(home.logoutLink) !== null
+          || Array.from(document.querySelectorAll('button')).some(b => b.textContent?.trim() === home.logoutText);
+        const isOnLoginPage = new RegExp(home.loginUrl).test(window.location.pathname);
         
         return (hasUserMenu || hasLogoutButton) && !isOnLoginPage;
-      });
+      }, { ...this.profile.selectors.home, loginUrl: this.profile.patterns.loginUrl });
 
       return isLoggedIn;
     } catch (error) {
@@ -132,6 +405,84 @@ class BotHunterVKParser {
     }
   }
 
+  /**
+   * Отметка редиректов на страницу входа — в том числе у запросов пагинации,
+   * после которых адрес страницы не меняется
+   */
+  private watchLoginRedirects(page: Page): void {
+    const loginUrl = new RegExp(this.profile.patterns.loginUrl);
+    page.on('response', response => {
+      if (response.request().redirectedFrom() && loginUrl.test(new URL(response.url()).pathname)) {
+        this.loginRedirectSeen = true;
+      }
+    });
+  }
+
+  /**
+   * Признаки выхода из аккаунта на текущей странице (без перехода)
+   * Разлогин — редирект или адрес страницы входа, либо кнопка входа через ВК без меню пользователя
+   */
+  private async isSessionLost(): Promise<boolean> {
+    if (!this.page) return true;
+    if (this.loginRedirectSeen) return true;
+    if (new RegExp(this.profile.patterns.loginUrl).test(new URL(this.page.url()).pathname)) return true;
+
+    const hasUserMarkers = await this.page.evaluate((home) => {
+      return document.querySelector(home.userMenu) !== null
+        || document.querySelector(home.logoutLink) !== null
+        || Array.from(document.querySelectorAll('button')).some(b => b.textContent?.trim() === home.logoutText);
+    }, this.profile.selectors.home);
+    if (hasUserMarkers) return false;
+
+    return (await this.page.$(this.profile.selectors.home.vkLoginButton)) !== null;
+  }
+
+  /**
+   * Проверка сессии после перехода: на странице входа собирать нечего
+   * @param action - Шаг, после которого проверяем (для ошибки)
+   * @throws {SessionExpiredError} Если сайт разлогинил
+   */
+  private async assertSession(action: string): Promise<void> {
+    if (await this.isSessionLost()) {
+      throw new SessionExpiredError(action);
+    }
+  }
+
+  /**
+   * Повторный вход посреди прогона (только с GUI): ждём, пока пользователь войдёт через ВК
+   * @throws {SessionExpiredError} Если вход не подтвердился
+   */
+  private async relogin(): Promise<void> {
+    console.log('\n⏸️  Сессия истекла — войдите заново в окне браузера, прогон продолжится сам');
+    await this.loginVK();
+
+    if (!(await this.checkAuth())) {
+      throw new SessionExpiredError('Повторный вход');
+    }
+    this.loginRedirectSeen = false;
+    this.selectedGroupId = null;
+    await this.saveSession();
+    console.log('▶️  Вход выполнен, продолжаем');
+  }
+
+  /**
+   * Выполнение сообщества или списка с восстановлением сессии
+   * С GUI после повторного входа элемент начинается заново (страницы из чекпоинта перематываются),
+   * без GUI SessionExpiredError прерывает прогон
+   */
+  private async withSessionRecovery<T>(fn: () => Promise<T>): Promise<T> {
+    for (let relogins = 0; ; relogins++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (!(error instanceof SessionExpiredError)) throw error;
+        this.emitEvent('authRequired', { reason: 'session-expired', action: error.message, headless: !!this.config.headless });
+        if (this.config.headless || relogins >= MAX_RELOGINS) throw error;
+        await this.relogin();
+      }
+    }
+  }
+
   /**
    * Авторизация через ВКонтакте (полуавтоматическая)
    * @returns {Promise<void>}
@@ -142,11 +493,11 @@ class BotHunterVKParser {
 
     console.log('🔐 Авторизация через ВК...');
     
-    await this.page.goto(`${this.config.baseUrl}`, { 
+    await this.page.goto(this.pageUrl('home'), { 
       waitUntil: 'domcontentloaded' 
     });
 
-    const vkLoginButton = await this.page.$('button:has-text("ВКонтакте"), a:has-text("ВКонтакте"), [href*="vk.com/authorize"]');
+    const vkLoginButton = await this.page.$(this.profile.selectors.home.vkLoginButton);
     
     if (vkLoginButton) {
       console.log('📱 Найдена кнопка входа через ВК, нажимаем...');
@@ -166,7 +517,8 @@ class BotHunterVKParser {
       console.log('⚠️ Кнопка входа через ВК не найдена');
       console.log('👤 Пожалуйста, авторизуйтесь вручную');
       
-      await this.page.waitForURL(url => !url.href.includes('login'), {
+      const loginUrl = new RegExp(this.profile.patterns.loginUrl);
+      await this.page.waitForURL(url => !loginUrl.test(url.href), {
         timeout: 120000
       });
     }
@@ -185,11 +537,10 @@ class BotHunterVKParser {
       fs.mkdirSync(userDataDir, { recursive: true });
     }
 
-    await this.page.context().storageState({ 
-      path: path.join(userDataDir, 'state.json') 
-    });
-    
-    console.log('💾 Сессия сохранена');
+    const state = await this.page.context().storageState();
+    writeSecureFile(path.join(userDataDir, 'state.json'), JSON.stringify(state), this.encryption);
+
+    console.log(`💾 Сессия сохранена${this.encryption ? ' (зашифрована)' : ''}`);
   }
 
   /**
@@ -202,19 +553,19 @@ class BotHunterVKParser {
 
     console.log('📋 Извлечение информации о сообществе...');
     
-    await this.page.goto(this.config.baseUrl, { 
+    await this.page.goto(this.pageUrl('home'), { 
       waitUntil: 'networkidle' 
     });
 
-    this.communityData = await this.page.evaluate(() => {
-      const nameElement = document.querySelector('a.dark-link');
+    this.communityData = await this.page.evaluate(({ home, identifierPattern }) => {
+      const nameElement = document.querySelector(home.communityName);
       const name = nameElement?.textContent?.trim() || 'Unknown Community';
 
-      const identifierMatch = document.body.textContent?.match(/ID:\s*(\d+)|Идентификатор:\s*(\d+)/);
+      const identifierMatch = document.body.textContent?.match(new RegExp(identifierPattern));
       const identifier = identifierMatch?.[1] || identifierMatch?.[2] || '';
 
       let vkUrl = '';
-      const vkLink = document.querySelector('a.dark-link[href*="vk.com"]');
+      const vkLink = document.querySelector(home.communityVkLink);
       if (vkLink) {
         vkUrl = (vkLink as HTMLAnchorElement).href;
       }
@@ -224,7 +575,7 @@ class BotHunterVKParser {
         url: vkUrl,
         identifier: identifier
       };
-    });
+    }, { home: this.profile.selectors.home, identifierPattern: this.profile.patterns.communityIdentifier });
 
     console.log(`✅ Сообщество: ${this.communityData.name}`);
     if (this.communityData.url) {
@@ -238,20 +589,120 @@ class BotHunterVKParser {
    * @throws {Error} Если браузер не инициализирован
    */
   async extractUserIds(): Promise<string[]> {
+    const contacts = await this.extractContacts();
+    return contacts.map(c => c.id);
+  }
+
+  /**
+   * Извлечение записей контактов с текущей страницы
+   * При стратегии network берёт ID из ответов сервера, загрузивших страницу,
+   * и откатывается на разбор DOM, если таких ответов не было.
+   * Поля записей дополняются из строк таблицы контактов
+   * @returns {Promise<ContactRecord[]>} Записи контактов страницы
+   * @throws {Error} Если браузер не инициализирован
+   */
+  async extractContacts(): Promise<ContactRecord[]> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const records = new Map<string, ContactRecord>();
+    const captured = this.config.idStrategy === 'network'
+      ? await this.responseCollector.take()
+      : null;
+
+    if (this.config.idStrategy === 'network' && !captured) {
+      console.log('   ℹ️ В ответах сервера ID не найдены — разбираем DOM');
+    }
+
+    const rows = await this.extractContactRowsFromDom();
+
+    if (captured) {
+      addContacts(records, captured.contacts);
+      captured.ids.forEach(id => {
+        if (!records.has(id)) records.set(id, bareContact(id));
+      });
+      addContacts(records, rows.filter(r => records.has(r.id)));
+    } else {
+      addContacts(records, rows);
+      const domIds = await this.extractUserIdsFromDom();
+      domIds.forEach(id => {
+        if (!records.has(id)) records.set(id, bareContact(id));
+      });
+    }
+
+    return Array.from(records.values());
+  }
+
+  /**
+   * Разбор строк таблицы контактов: имя, ссылка на профиль, дата подписки, теги и списки
+   * Строкой считается ближайший контейнер вокруг ссылки на профиль vk.com/idN
+   * @returns {Promise<ContactRecord[]>} Записи по строкам текущей страницы
+   */
+  private async extractContactRowsFromDom(): Promise<ContactRecord[]> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    return this.page.evaluate(({ sel, profileIdPattern, datePattern }) => {
+      const records: ContactRecord[] = [];
+      const seen = new Set<string>();
+      const links = Array.from(document.querySelectorAll(sel.profileLink)) as HTMLAnchorElement[];
+      const profileId = new RegExp(profileIdPattern);
+      const date = new RegExp(datePattern);
+
+      links.forEach(link => {
+        const id = link.href.match(profileId)?.[1];
+        if (!id || seen.has(id)) return;
+        seen.add(id);
+
+        const row = link.closest(sel.row)
+          || link.parentElement;
+        const rowText = (row as HTMLElement | null)?.innerText || '';
+
+        const name = link.textContent?.trim()
+          || row?.querySelector(sel.rowName)?.textContent?.trim()
+          || '';
+
+        const dateMatch = rowText.match(date);
+
+        // Внутри evaluate нельзя объявлять именованные функции: tsx оборачивает их в __name
+        const lists = Array.from(row?.querySelectorAll(sel.rowLists) || [])
+          .map(el => el.textContent?.trim() || '')
+          .filter(Boolean);
+        const tags = Array.from(row?.querySelectorAll(sel.rowTags) || [])
+          .map(el => el.textContent?.trim() || '')
+          .filter(t => t && !lists.includes(t));
+
+        records.push({
+          id,
+          name,
+          profileUrl: `https://vk.com/id${id}`,
+          subscribedAt: dateMatch?.[0] || '',
+          tags: Array.from(new Set(tags)),
+          lists: Array.from(new Set(lists)),
+        });
+      });
+
+      return records;
+    }, {
+      sel: this.profile.selectors.contacts,
+      profileIdPattern: this.profile.patterns.profileId,
+      datePattern: this.profile.patterns.subscribedAt,
+    });
+  }
+
+  /**
+   * Извлечение ID пользователей регулярками по тексту текущей страницы
+   * @returns {Promise<string[]>} Массив найденных ID пользователей
+   */
+  private async extractUserIdsFromDom(): Promise<string[]> {
     if (!this.page) throw new Error('Браузер не инициализирован');
 
-    const ids = await this.page.evaluate(() => {
+    const ids = await this.page.evaluate(({ containers, patterns }) => {
       const userIds: string[] = [];
       
-      const idPatterns = [
-        /ID\s*[:\s]*(\d+)/gi,
-        /ID(\d+)/gi,
-        /@id(\d+)/gi,
-      ];
+      const idPatterns = patterns.map(p => new RegExp(p, 'gi'));
 
       const pageText = document.body.innerText;
       
-      const userElements = document.querySelectorAll('[class*="user"], [class*="contact"], [class*="member"]');
+      const userElements = document.querySelectorAll(containers);
       
       userElements.forEach(element => {
         const text = element.textContent || '';
@@ -276,206 +727,1008 @@ class BotHunterVKParser {
       }
 
       return [...new Set(userIds)];
-    });
+    }, { containers: this.profile.selectors.contacts.idContainers, patterns: this.profile.patterns.textIds });
 
     return ids;
   }
 
-  async parse(): Promise<void> {
-    const startTime = Date.now();
-
+  /**
+   * Только авторизация: открывает сайт, при необходимости ждёт входа через ВК и сохраняет сессию
+   * @returns {Promise<boolean>} true если после входа сессия авторизована
+   */
+  async login(): Promise<boolean> {
     try {
       await this.init();
 
-      const isAuthorized = await this.checkAuth();
-
-      if (!isAuthorized) {
-        console.log('❌ Не авторизован, требуется вход');
-        await this.loginVK();
-      } else {
+      if (await this.checkAuth()) {
         console.log('✅ Уже авторизован');
-      }
-
-      // В зависимости от режима выполняем нужный сценарий
-      const mode = this.config.mode || 'contacts';
-      console.log(`\n🚦 Режим работы: ${mode}`);
-
-      if (mode === 'groups') {
-        await this.parseGroupsMode();
-      } else if (mode === 'lists') {
-        await this.parseListsMode();
       } else {
-        // Базовый сценарий: текущая группа -> /contacts -> все страницы
-        await this.extractCommunityInfo();
-        console.log('📋 Переход на страницу контактов...');
-        await this.page!.goto(`${this.config.baseUrl}/contacts`, { waitUntil: 'networkidle' });
-        const ids = await this.collectAllContactIds();
-        // Сохраняем как раньше (JSON + txt), причём txt пойдёт в новый формат тоже
-        await this.saveResults();
-        const savedPath = await this.writeIdsFile(ids, `contacts_current_group`);
-        console.log(`💾 Дополнительно сохранён txt со свежим именем: ${savedPath}`);
+        await this.loginVK();
       }
 
-      const duration = Math.round((Date.now() - startTime) / 1000);
-      console.log(`\n✅ Готово за ${duration} секунд`);
-
-    } catch (error) {
-      console.error('❌ Ошибка:', error);
-      throw error;
+      await this.saveSession();
+      const ok = await this.checkAuth();
+      console.log(ok ? '✅ Сессия авторизована' : '❌ Авторизация не подтверждена');
+      return ok;
     } finally {
       await this.close();
     }
   }
 
   /**
-   * Сохранение результатов парсинга в файлы
-   * Создает JSON файл с полными данными и TXT файл только с ID
-   * @returns {Promise<void>}
+   * Проверка сохранённой сессии без входа: открывает сайт и выполняет checkAuth
+   * @returns {Promise<boolean>} true если сессия ещё авторизована
    */
-  async saveResults(): Promise<void> {
-    const result: ParseResult = {
-      community: this.communityData || {
-        name: 'Unknown',
-        url: '',
-        identifier: ''
-      },
-      userIds: Array.from(this.userIds),
-      totalUsers: this.userIds.size,
-      timestamp: new Date().toISOString()
-    };
-
-    const outputFile = this.config.outputFile || 'bothunter_results.json';
-    fs.writeFileSync(outputFile, JSON.stringify(result, null, 2), 'utf-8');
-    console.log(`\n💾 Результаты сохранены в: ${outputFile}`);
-
-    const idsFile = outputFile.replace('.json', '_ids.txt');
-    fs.writeFileSync(idsFile, Array.from(this.userIds).join('\n'), 'utf-8');
-    console.log(`💾 ID пользователей сохранены в: ${idsFile}`);
+  async checkSession(): Promise<boolean> {
+    try {
+      await this.init();
+      return await this.checkAuth();
+    } finally {
+      await this.close();
+    }
   }
 
   /**
-   * Формирование метки времени формата ddMMyyyyHHmmss для имени файла
+   * Самопроверка профиля сайта: открывает каждую страницу и проверяет все селекторы и регулярки
+   * @returns {Promise<boolean>} true если все обязательные селекторы что-то нашли
    */
-  private formatTimestampForFilename(d: Date = new Date()): string {
-    const pad = (n: number) => String(n).padStart(2, '0');
-    const dd = pad(d.getDate());
-    const mm = pad(d.getMonth() + 1);
-    const yyyy = d.getFullYear();
-    const HH = pad(d.getHours());
-    const MM = pad(d.getMinutes());
-    const SS = pad(d.getSeconds());
-    return `${dd}${mm}${yyyy}${HH}${MM}${SS}`;
-  }
+  async doctor(): Promise<boolean> {
+    let healthy = true;
 
-  /**
-   * Простой случайный хеш для имени файла
-   */
-  private randomHash(len = 6): string {
-    return Math.random().toString(36).slice(2, 2 + len);
-  }
+    try {
+      await this.init();
+      console.log(`🩺 Профиль сайта: версия ${this.profile.version}${this.config.siteProfile ? ` (${this.config.siteProfile})` : ''}`);
 
-  /**
-   * Слагификация подписи для файлов
-   */
-  private slugify(v: string, max = 40): string {
-    return (v || 'item')
-      .normalize('NFKD')
-      .replace(/[\u0300-\u036f]/g, '')
-      .replace(/[^a-zA-Z0-9А-Яа-я_\-\s]/g, '')
-      .trim()
-      .replace(/\s+/g, '_')
-      .slice(0, max) || 'item';
-  }
+      if (!(await this.checkAuth())) {
+        console.log('❌ Сессия не авторизована — страницы контактов и сообществ проверить нельзя');
+        console.log('   Выполните вход: tsx bothunter-vk-simple.ts login');
+        return false;
+      }
 
-  /**
-   * Сохранение только ID в отдельный файл с уникальным именем
-   * Пример имени: bothunter_ids_06112025225301_group_PtichkaNalichka_ab12cd.txt
-   */
-  private async writeIdsFile(ids: string[], label: string): Promise<string> {
-    const ts = this.formatTimestampForFilename();
-    const hash = this.randomHash(6);
-    const safeLabel = this.slugify(label);
-    const fileName = `bothunter_ids_${ts}_${safeLabel}_${hash}.txt`;
-    const baseOut = this.config.outputFile || 'bothunter_results.json';
-    const outDir = path.dirname(baseOut);
-    const outPath = path.join(outDir, fileName);
-    fs.writeFileSync(outPath, Array.from(new Set(ids)).join('\n'), 'utf-8');
-    return outPath;
+      const checks = buildDoctorChecks(this.profile);
+      const pages = Object.keys(this.profile.pages) as (keyof SiteProfile['pages'])[];
+
+      for (const pageName of pages) {
+        const pageChecks = checks.filter(c => c.page === pageName);
+        if (pageChecks.length === 0) continue;
+
+        const url = this.pageUrl(pageName);
+        console.log(`\n📄 ${pageName}: ${url}`);
+        await this.page!.goto(url, { waitUntil: 'networkidle' });
+
+        const results = await this.runDoctorChecks(pageChecks);
+        results.forEach(({ check, count, error }) => {
+          const ok = !error && count > 0;
+          const icon = ok ? '✅' : check.optional && !error ? '⚠️ ' : '❌';
+          const detail = error ? `ошибка: ${error}` : `совпадений: ${count}`;
+          console.log(`   ${icon} ${check.name} — ${detail}`);
+          if (!ok && !check.optional) healthy = false;
+        });
+      }
+
+      console.log(healthy
+        ? '\n✅ Все обязательные селекторы находят элементы'
+        : '\n❌ Часть селекторов ничего не нашла — обновите профиль сайта (SITE_PROFILE)');
+      return healthy;
+    } finally {
+      await this.close();
+    }
   }
 
   /**
-   * Сбор ID со всех страниц текущего списка контактов
-   * Не меняет текущий URL (важно для списков на /contacts/lists)
+   * Выполнение проверок doctor на открытой странице
    */
-  private async collectAllContactIds(): Promise<string[]> {
+  private async runDoctorChecks(checks: DoctorCheck[]): Promise<{ check: DoctorCheck; count: number; error?: string }[]> {
     if (!this.page) throw new Error('Браузер не инициализирован');
 
-    this.userIds.clear();
+    const outcomes = await this.page.evaluate((items) => {
+      return items.map(check => {
+        try {
+          if (check.kind === 'selector') {
+            if (check.within) {
+              return { count: Array.from(document.querySelectorAll(check.within))
+                .filter(parent => parent.querySelector(check.selector) !== null).length };
+            }
+            return { count: document.querySelectorAll(check.selector).length };
+          }
 
-    let currentPage = 1;
-    const maxPages = this.config.maxPages || 10000;
+          const re = new RegExp(check.pattern || '');
+          const sources = check.selector
+            ? Array.from(document.querySelectorAll(check.selector))
+              .map(el => check.attribute ? (el.getAttribute(check.attribute) || '') : (el.textContent || ''))
+            : [document.body.innerText];
+          return { count: sources.filter(text => re.test(text)).length };
+        } catch (e) {
+          return { count: 0, error: String((e as Error).message || e) };
+        }
+      });
+    }, checks);
 
-    while (currentPage <= maxPages) {
-      console.log(`\n📄 Обработка страницы ${currentPage}...`);
+    return checks.map((check, i) => ({ check, ...outcomes[i] }));
+  }
 
-      const pageIds = await this.extractUserIds();
-      console.log(`   Найдено ID: ${pageIds.length}`);
-      pageIds.forEach(id => this.userIds.add(id));
+  /**
+   * Загрузка ID в список сайта (команда import): выбор сообщества, поиск или создание списка, отправка пакетами
+   * В dry-run ничего не меняет: список выгружается, чтобы показать, сколько ID в нём уже есть
+   * @returns {Promise<ImportResult>} Сколько ID принято и отклонено (в dry-run — сколько будет отправлено)
+   * @throws {ListImportError} Если сообщество не найдено, список не создался или ответ сайта не разобрать
+   */
+  async importIds(options: ImportOptions): Promise<ImportResult> {
+    const batchSize = options.batchSize || DEFAULT_IMPORT_BATCH_SIZE;
+    const result: ImportResult = {
+      list: options.list,
+      group: null,
+      dryRun: !!options.dryRun,
+      created: false,
+      total: options.ids.length,
+      alreadyInList: null,
+      toAdd: options.ids.length,
+      batches: 0,
+      accepted: 0,
+      rejected: 0,
+      sent: 0,
+      error: null,
+    };
 
-      const nextButton = await this.page.$(`#followers-list-pagination .btn.btn-primary.pagination-btn:not([disabled]):not(.me-1), #followers-pagination .btn.btn-primary.pagination-btn:not([disabled]):not(.me-1)`);
+    try {
+      await this.init();
+      if (!(await this.checkAuth())) {
+        console.log('❌ Не авторизован, требуется вход');
+        this.emitEvent('authRequired', { reason: 'login', action: null, headless: !!this.config.headless });
+        await this.loginVK();
+      }
+      this.loginRedirectSeen = false;
+
+      if (options.group) {
+        const wanted = options.group.toLowerCase();
+        const group = (await this.discoverGroups()).find(g => g.id === options.group || g.name.toLowerCase() === wanted);
+        if (!group) throw new ListImportError(`сообщество "${options.group}" не найдено на странице сообществ`);
+        console.log(`➡️  Переключаюсь на: ${group.name || group.id} (#${group.id})`);
+        await this.selectGroup(group);
+        result.group = group;
+      }
 
-      if (nextButton) {
-        const isDisabled = await nextButton.evaluate(btn => {
-          return (btn as HTMLButtonElement).disabled ||
-                 btn.classList.contains('disabled') ||
-                 btn.hasAttribute('disabled');
-        });
+      const findList = async () => (await this.discoverLists()).find(l => l.name.toLowerCase() === options.list.toLowerCase());
+      let target = await findList();
 
-        if (isDisabled) {
-          console.log('⚠️ Достигнута последняя страница');
-          break;
+      if (!target) {
+        result.created = true;
+        if (!options.dryRun) {
+          await this.createList(options.list);
+          target = await findList();
+          if (!target) throw new ListImportError(`список «${options.list}» не появился после создания`);
+          console.log(`🆕 Создан список «${target.name}»`);
         }
+      }
 
-        await nextButton.click();
-        await this.page!.waitForLoadState('networkidle');
-        await this.delay(1000, 2000);
+      if (options.dryRun) {
+        let members = new Set<string>();
+        if (target) {
+          console.log(`📋 Выгружаю список «${target.name}» для сверки...`);
+          await this.openList(target.href);
+          members = new Set(await this.collectAllContactIds());
+        }
+        result.alreadyInList = options.ids.filter(id => members.has(id)).length;
+        result.toAdd = result.total - result.alreadyInList;
+        result.batches = Math.ceil(result.toAdd / batchSize);
+        return result;
+      }
 
-        currentPage++;
-      } else {
-        console.log('⚠️ Кнопка следующей страницы не найдена');
-        break;
+      await this.openList(target!.href);
+      const batches = chunkIds(options.ids, batchSize);
+      for (const [i, batch] of batches.entries()) {
+        this.throwIfCancelled();
+        let accepted: number, rejected: number;
+        try {
+          ({ accepted, rejected } = await this.submitImportBatch(batch));
+        } catch (error) {
+          // Итоги прошлых пакетов не теряем: по sent повтор пропустит уже отправленное
+          result.error = `пакет ${i + 1}/${batches.length}: ${(error as Error).message}`;
+          break;
+        }
+        result.accepted += accepted;
+        result.rejected += rejected;
+        result.batches++;
+        result.sent += batch.length;
+        console.log(`   📤 Пакет ${i + 1}/${batches.length}: принято ${accepted}, отклонено ${rejected}`);
       }
+      return result;
+    } finally {
+      await this.close();
     }
+  }
 
-    return Array.from(this.userIds);
+  /**
+   * Создание списка формой на /contacts/lists
+   */
+  private async createList(name: string): Promise<void> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const sel = this.profile.selectors.lists;
+    if (this.page.url() !== this.pageUrl('lists')) {
+      await this.page.goto(this.pageUrl('lists'), { waitUntil: 'networkidle' });
+    }
+    await this.rateLimiter.acquire();
+    await this.page.fill(sel.createName, name);
+    // Форма создаёт список через fetch и перезагружает страницу: сессию проверяем уже на новой
+    await Promise.all([
+      this.page.waitForEvent('load'),
+      this.page.click(sel.createSubmit),
+    ]);
+    await this.page.waitForLoadState('networkidle');
+    await this.assertSession('Создание списка');
   }
 
   /**
-   * Режим 1: выгрузка ID для КАЖДОГО сообщества со страницы /groups
+   * Отправка пакета ID формой открытого списка и разбор сообщения с итогом
+   * Без повторов: пакет мог уйти на сайт до сбоя
    */
-  private async parseGroupsMode(): Promise<void> {
+  private async submitImportBatch(ids: string[]): Promise<{ accepted: number; rejected: number }> {
     if (!this.page) throw new Error('Браузер не инициализирован');
 
-    const waitMs = this.config.waitAfterSwitchMs ?? 3000;
+    const sel = this.profile.selectors.lists;
+    await this.rateLimiter.acquire();
+    // Прошлое сообщение убираем, чтобы дождаться нового
+    await this.page.$$eval(sel.importResult, els => els.forEach(el => { el.textContent = ''; }));
+    await this.page.fill(sel.importIds, ids.join('\n'));
+    await this.page.click(sel.importSubmit);
+    await this.page.waitForFunction(
+      selector => (document.querySelector(selector)?.textContent || '').trim() !== '',
+      sel.importResult,
+      { timeout: 15000 },
+    ).catch(() => {
+      throw new ListImportError('сайт не показал итог добавления за 15 с');
+    });
+    await this.assertSession('Добавление в список');
 
-    console.log('📂 Переход на список сообществ...');
-    await this.page.goto(`${this.config.baseUrl}/groups`, { waitUntil: 'networkidle' });
+    const text = await this.page.$eval(sel.importResult, el => el.textContent || '');
+    return parseImportMessage(text, this.profile.patterns.importAccepted, this.profile.patterns.importRejected);
+  }
 
-    const groups = await this.page.evaluate(() => {
-      const anchors = Array.from(document.querySelectorAll('a[onclick*="change_group_with_channel"]')) as HTMLAnchorElement[];
-      const items: { id: string; name: string }[] = [];
-      const seen = new Set<string>();
+  /**
+   * Отмена прогона: текущая страница дорабатывается, затем parse() завершается RunCancelledError
+   */
+  cancel(): void {
+    this.cancellation.abort();
+  }
 
-      anchors.forEach(a => {
-        const onclick = a.getAttribute('onclick') || '';
-        const m = onclick.match(/change_group_with_channel\('([^']+)'/);
-        const id = m?.[1] || '';
-        if (!id || seen.has(id)) return;
-        seen.add(id);
+  /**
+   * Снимок прогресса прогона
+   */
+  getProgress(): ParseProgress {
+    return { ...this.progress, active: this.progress.active.map(item => ({ ...item })) };
+  }
 
-        let name = '';
-        const nameCandidate = a.querySelector('div div div div');
-        if (nameCandidate && nameCandidate.textContent) {
+  /**
+   * Поток ID по страницам: прогон parse() идёт, пока читается поток
+   * Выход из for await отменяет прогон; ошибка прогона выбрасывается из цикла
+   * @returns Отчёт прогона — значение return генератора
+   */
+  async *stream(): AsyncGenerator<PageIds, RunReport, undefined> {
+    const queue: PageIds[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+    let report: RunReport | null = null;
+    let failure: unknown = null;
+
+    const onIds = (page: PageIds) => {
+      queue.push(page);
+      wake?.();
+    };
+    this.on('idsFound', onIds);
+
+    const run = this.parse()
+      .then(r => (report = r), e => (failure = e))
+      .finally(() => {
+        finished = true;
+        wake?.();
+      });
+
+    try {
+      while (queue.length > 0 || !finished) {
+        if (queue.length === 0) {
+          await new Promise<void>(resolve => (wake = resolve));
+          wake = null;
+          continue;
+        }
+        yield queue.shift()!;
+      }
+      if (failure) throw failure;
+      return report!;
+    } finally {
+      this.off('idsFound', onIds);
+      if (!finished) {
+        this.cancel();
+        await run;
+      }
+    }
+  }
+
+  /**
+   * Событие от имени основного парсера; error без обработчиков не генерируется (EventEmitter бы его выбросил)
+   */
+  private emitEvent<K extends keyof ParserEvents>(event: K, ...args: ParserEvents[K]): void {
+    if (event === 'error' && this.eventTarget.listenerCount('error') === 0) return;
+    (this.eventTarget.emit as (event: K, ...args: ParserEvents[K]) => boolean)(event, ...args);
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancellation.signal.aborted) {
+      throw new RunCancelledError();
+    }
+  }
+
+  /**
+   * Начало выгрузки элемента — он появляется в прогрессе
+   */
+  private beginItem(kind: ActiveItem['kind'], key: string, label: string): void {
+    this.activeItem = { kind, key, label, page: 0 };
+    this.progress.active.push(this.activeItem);
+  }
+
+  /**
+   * Элемент выгружен или пропущен после сбоя
+   */
+  private endItem(): void {
+    this.progress.active = this.progress.active.filter(item => item !== this.activeItem);
+    this.activeItem = null;
+    this.progress.done++;
+  }
+
+  /**
+   * Полный прогон в режиме из конфигурации
+   * Сбой отдельного сообщества или списка не прерывает прогон — он попадает в отчёт
+   * @returns {Promise<RunReport>} Отчёт прогона; hasFailures — были ли сбои
+   * @throws {Error} Если прогон прерван целиком (вход, список сообществ и т.п.)
+   */
+  async parse(): Promise<RunReport> {
+    const startTime = Date.now();
+    const mode = this.config.mode || 'contacts';
+    const report = new RunReport(mode);
+    this.report = report;
+    this.progress = { mode, total: 0, done: 0, active: [] };
+    this.exports = [];
+    this.runManifest = this.config.runDirs ? new RunManifest(this.getBaseOutputDir(), mode, this.config) : null;
+    let reportPath: string | null = null;
+    /** Файлы каталога режима inventory: он пишет их вместо отчёта */
+    let inventoryFiles: string[] = [];
+
+    try {
+      fs.mkdirSync(this.getOutputDir(), { recursive: true });
+      await this.init();
+
+      const isAuthorized = await this.checkAuth();
+
+      if (!isAuthorized) {
+        console.log('❌ Не авторизован, требуется вход');
+        this.emitEvent('authRequired', { reason: 'login', action: null, headless: !!this.config.headless });
+        await this.loginVK();
+      } else {
+        console.log('✅ Уже авторизован');
+      }
+      this.loginRedirectSeen = false;
+
+      // В зависимости от режима выполняем нужный сценарий
+      console.log(`\n🚦 Режим работы: ${mode}`);
+
+      if (mode === 'groups' || mode === 'lists' || mode === 'group-lists') {
+        this.prepareCheckpoint(mode);
+      }
+
+      if (this.config.historyDb && mode !== 'inventory') {
+        if (this.encryption) {
+          // SQLite не шифруется: ID участников ложатся в базу открытыми
+          console.warn(`⚠️ База истории ${this.config.historyDb} не шифруется — ID участников в ней хранятся открытыми.`);
+          console.warn('   Чтобы на диске не было открытых ID, не передавайте --history-db');
+        }
+        this.history = new HistoryStore(this.config.historyDb);
+        this.historyRunId = this.history.startRun(mode);
+      }
+
+      if (mode === 'groups') {
+        await this.parseGroupsMode();
+      } else if (mode === 'lists') {
+        await this.parseListsMode();
+      } else if (mode === 'group-lists') {
+        await this.parseGroupListsMode();
+      } else if (mode === 'inventory') {
+        inventoryFiles = await this.parseInventoryMode();
+      } else {
+        // Базовый сценарий: текущая группа -> /contacts -> все страницы
+        this.progress.total = 1;
+        this.beginItem('contacts', 'contacts', 'contacts_current_group');
+        const ids = await this.withSessionRecovery(async () => {
+          await this.extractCommunityInfo();
+          await this.assertSession('Открытие главной');
+          this.collectTarget = {
+            label: 'contacts_current_group',
+            community: { ...this.communityData! },
+          };
+          console.log('📋 Переход на страницу контактов...');
+          await this.retry('Открытие контактов', async () => {
+            this.responseCollector.reset();
+            await this.page!.goto(this.pageUrl('contacts'), { waitUntil: 'networkidle' });
+          });
+          await this.assertSession('Открытие контактов');
+          return this.collectAllContactIds();
+        });
+        // Сохраняем как раньше (JSON + txt), причём txt пойдёт в новый формат тоже
+        await this.saveResults();
+        const savedPath = await this.exportItem(this.getContacts(), `contacts_current_group`);
+        console.log(`💾 Дополнительно сохранён txt со свежим именем: ${savedPath}`);
+        report.success({
+          kind: 'contacts', key: 'contacts', label: 'contacts_current_group',
+          pages: this.pagesVisited, ids: ids.length, file: savedPath, completeness: this.completeness,
+        });
+        this.endItem();
+      }
+
+      // Прогон завершён целиком — чекпоинт больше не нужен;
+      // при сбоях он остаётся, и RESUME=true догрузит только несделанное
+      if (!report.hasFailures) {
+        this.checkpoint?.clear();
+      }
+
+      if (this.config.diff) {
+        this.printDiffSummary();
+      }
+
+      if (this.history && this.historyRunId !== null) {
+        this.history.finishRun(this.historyRunId, report.hasFailures ? 'partial' : 'success');
+      }
+
+      const duration = Math.round((Date.now() - startTime) / 1000);
+      console.log(report.hasFailures
+        ? `\n⚠️ Готово за ${duration} секунд, есть сбои`
+        : `\n✅ Готово за ${duration} секунд`);
+
+      return report;
+    } catch (error) {
+      if (error instanceof RunCancelledError) {
+        console.log('\n⏹️  Прогон отменён');
+      } else {
+        console.error('❌ Ошибка:', error);
+      }
+      report.fatal(error);
+      this.emitEvent('error', { item: null, error: error instanceof Error ? error : new Error(String(error)), fatal: true });
+      if (this.history && this.historyRunId !== null) {
+        this.history.finishRun(this.historyRunId, 'failed');
+      }
+      throw error;
+    } finally {
+      if (mode !== 'inventory') {
+        report.print();
+        reportPath = report.write(this.getOutputDir(), formatFileTimestamp());
+        console.log(`📊 Отчёт: ${reportPath}`);
+      }
+      if (this.runManifest) {
+        const data = report.toJSON();
+        const status = data.fatalError ? 'failed' : report.hasFailures ? 'partial' : 'success';
+        console.log(`🧾 Манифест прогона: ${this.runManifest.finish(status)}`);
+        this.runManifest = null;
+      }
+      if (reportPath || mode === 'inventory') {
+        await this.notify(report, reportPath, inventoryFiles);
+      }
+      this.report = null;
+      this.history?.close();
+      this.history = null;
+      await this.close();
+    }
+  }
+
+  /**
+   * Уведомление об итогах прогона (вебхуки, Telegram), если получатели настроены
+   * @param reportPath - Отчёт прогона; у inventory его нет
+   * @param files - Файлы для вложения помимо выгрузок и отчёта (каталог inventory)
+   */
+  private async notify(report: RunReport, reportPath: string | null, files: string[] = []): Promise<void> {
+    if (!this.notifier.enabled) return;
+
+    const data = report.toJSON();
+    await this.notifier.send({
+      event: data.fatalError ? 'failed' : 'finished',
+      mode: data.mode,
+      startedAt: data.startedAt,
+      finishedAt: data.finishedAt || new Date().toISOString(),
+      durationSec: Math.round((Date.parse(data.finishedAt || '') - Date.parse(data.startedAt)) / 1000) || 0,
+      succeeded: data.succeeded,
+      failed: data.failed,
+      fatalError: data.fatalError,
+      exports: this.exports,
+      failures: data.items
+        .filter(item => item.status === 'failed')
+        .map(({ kind, key, label, error }) => ({ kind, key, label, error })),
+      reportFile: reportPath,
+    }, [...this.exports.flatMap(e => e.files), ...files, ...(reportPath ? [reportPath] : [])]);
+  }
+
+  /**
+   * Шаг прогона с повторами по политике RETRIES / RETRY_DELAY_MS
+   */
+  private retry<T>(action: string, fn: (attempt: number) => Promise<T>): Promise<T> {
+    return withRetry(action, fn, {
+      retries: this.config.retries ?? 2,
+      baseDelayMs: this.config.retryDelayMs ?? 2000,
+    });
+  }
+
+  /**
+   * Подготовка чекпоинта для режимов groups/lists
+   * При RESUME=true подхватывает сохранённый прогресс, иначе начинает с чистого листа
+   */
+  private prepareCheckpoint(mode: string): void {
+    const userDataDir = this.config.sessionPath || path.join(process.cwd(), 'browser-session');
+    this.checkpoint = new RunCheckpoint(userDataDir, mode, this.encryption);
+
+    if (this.config.resume && this.checkpoint.load()) {
+      console.log(`♻️  Продолжаем с чекпоинта: уже выгружено ${this.checkpoint.completedCount}`);
+    } else {
+      this.checkpoint.clear();
+    }
+  }
+
+  /**
+   * Запись снимка текущей выгрузки в историю (сообщество, список, наблюдения пользователей)
+   */
+  private recordHistory(ids: string[]): void {
+    if (!this.history || this.historyRunId === null || !this.collectTarget) return;
+
+    const target = this.collectTarget;
+    const communityId = this.history.upsertCommunity(target.community);
+    const listId = target.list
+      ? this.history.upsertList(communityId, target.list.name, target.list.href)
+      : null;
+
+    this.history.recordSnapshot(this.historyRunId, communityId, listId, target.label, ids);
+    console.log(`🗄️  Снимок записан в историю: ${target.label} (${ids.length})`);
+  }
+
+  /**
+   * Сохранение результатов парсинга в файлы
+   * Создает JSON файл с полными данными и TXT файл только с ID
+   * @returns {Promise<void>}
+   */
+  async saveResults(): Promise<void> {
+    const result: ParseResult = {
+      community: this.communityData || {
+        name: 'Unknown',
+        url: '',
+        identifier: ''
+      },
+      userIds: Array.from(this.userIds),
+      contacts: this.getContacts(),
+      totalUsers: this.userIds.size,
+      completeness: this.completeness,
+      timestamp: new Date().toISOString()
+    };
+
+    const outputFile = path.join(this.getOutputDir(), path.basename(this.config.outputFile || 'bothunter_results.json'));
+    writeSecureFile(outputFile, JSON.stringify(result, null, 2), this.encryption);
+    console.log(`\n💾 Результаты сохранены в: ${outputFile}`);
+
+    const idsFile = outputFile.replace('.json', '_ids.txt');
+    writeSecureFile(idsFile, Array.from(this.userIds).join('\n'), this.encryption);
+    console.log(`💾 ID пользователей сохранены в: ${idsFile}`);
+  }
+
+  /**
+   * Записи контактов, собранные последним вызовом collectAllContactIds
+   * Для ID без строки на странице возвращается запись только с ID и ссылкой
+   */
+  private getContacts(): ContactRecord[] {
+    return Array.from(this.userIds).map(id => this.contacts.get(id) || bareContact(id));
+  }
+
+  /**
+   * Итоговая сводка изменений по всем выгрузкам прогона
+   */
+  private printDiffSummary(): void {
+    if (this.diffSummaries.length === 0) return;
+
+    console.log('\n🔀 Изменения с прошлого прогона:');
+    for (const s of this.diffSummaries) {
+      console.log(`   ${s.label}: было ${s.previousCount}, стало ${s.currentCount} (+${s.added} / -${s.removed})`);
+    }
+  }
+
+  /**
+   * Полный адрес страницы сайта по профилю
+   */
+  private pageUrl(name: keyof SiteProfile['pages']): string {
+    const pagePath = this.profile.pages[name];
+    const base = this.config.baseUrl.replace(/\/$/, '');
+    return pagePath === '/' ? base : `${base}${pagePath}`;
+  }
+
+  /**
+   * Папка для файлов выгрузок: рядом с OUTPUT_FILE или папка текущего прогона при RUN_DIRS
+   */
+  private getOutputDir(): string {
+    return this.runManifest?.dir ?? this.getBaseOutputDir();
+  }
+
+  /**
+   * Папка рядом с OUTPUT_FILE: в ней runs/ и latest/ при RUN_DIRS
+   */
+  private getBaseOutputDir(): string {
+    return path.dirname(this.config.outputFile || 'bothunter_results.json');
+  }
+
+  /**
+   * Сохранение только ID в отдельный файл с уникальным именем
+   * Пример имени: bothunter_ids_06112025225301_group_PtichkaNalichka_ab12cd.txt
+   */
+  private async writeIdsFile(ids: string[], label: string, fileStem = buildFileStem(label)): Promise<string> {
+    const fileName = `bothunter_ids_${fileStem}.txt`;
+    const outPath = path.join(this.getOutputDir(), fileName);
+    writeSecureFile(outPath, Array.from(new Set(ids)).join('\n'), this.encryption);
+    return outPath;
+  }
+
+  /**
+   * Сохранение выгрузки: txt с ID и файлы всех форматов из OUTPUT_FORMATS
+   * Все файлы одной выгрузки получают общую метку времени и хеш в имени
+   * @returns {Promise<string>} Путь txt-файла с ID
+   */
+  private async exportItem(contacts: ContactRecord[], label: string, fileStem = buildFileStem(label)): Promise<string> {
+    const idsPath = await this.writeIdsFile(contacts.map(c => c.id), label, fileStem);
+
+    const diffFiles: string[] = [];
+    if (this.config.diff) {
+      // Прошлые выгрузки при RUN_DIRS — в папках других прогонов
+      const summary = writeDiff(idsPath, label, this.encryption, this.runManifest ? this.getBaseOutputDir() : undefined);
+      if (summary) {
+        diffFiles.push(summary.addedFile, summary.removedFile);
+        this.diffSummaries.push(summary);
+        console.log(`🔀 Изменения с ${summary.previousFile}: +${summary.added} / -${summary.removed}`);
+      } else {
+        console.log('🔀 Предыдущей выгрузки для сравнения нет');
+      }
+    }
+
+    const files = [idsPath];
+    for (const exporter of this.exporters) {
+      const paths = await exporter.export({
+        contacts,
+        label,
+        outDir: this.getOutputDir(),
+        fileStem,
+        encryption: this.encryption,
+      });
+      paths.forEach(p => console.log(`💾 ${exporter.format}: ${p}`));
+      files.push(...paths);
+    }
+
+    const summary: ExportSummary = {
+      label, ids: new Set(contacts.map(c => c.id)).size, file: idsPath, files, completeness: this.completeness,
+    };
+    const target = this.collectTarget;
+    this.runManifest?.addExport(label, summary.ids, idsPath, [...files, ...diffFiles], target ? { community: target.community, list: target.list ?? null } : null);
+    this.exports.push(summary);
+    this.emitEvent('itemSaved', summary);
+    return idsPath;
+  }
+
+  /**
+   * Сбор ID со всех страниц текущего списка контактов
+   * Не меняет текущий URL (важно для списков на /contacts/lists)
+   * @param itemKey - Ключ элемента для чекпоинта (id сообщества или href списка)
+   * @param label - Подпись элемента для чекпоинта
+   */
+  private async collectAllContactIds(itemKey?: string, label = ''): Promise<string[]> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    this.userIds.clear();
+    this.contacts.clear();
+    this.pagesVisited = 0;
+    this.completeness = null;
+
+    let currentPage = 1;
+    const maxPages = this.config.maxPages || 10000;
+    const expected = await this.readDisplayedTotal();
+    /** Сколько строк дала каждая пройденная страница (перемотанные по чекпоинту не учитываются) */
+    const pageSizes = new Map<number, number>();
+
+    const progress = itemKey ? this.checkpoint?.getProgress(itemKey) : null;
+    if (progress) {
+      progress.userIds.forEach(id => this.userIds.add(id));
+      addContacts(this.contacts, progress.contacts || []);
+      console.log(`♻️  Восстановлено ID: ${progress.userIds.length}, перематываем до страницы ${progress.lastPage + 1}...`);
+
+      const skipped = await this.skipPages(progress.lastPage);
+      if (skipped < progress.lastPage) {
+        console.log(`⚠️ Список стал короче: перемотано только ${skipped} стр.`);
+      }
+      currentPage = skipped + 1;
+    }
+
+    while (currentPage <= maxPages) {
+      this.throwIfCancelled();
+      if (this.activeItem) this.activeItem.page = currentPage;
+      console.log(`\n📄 Обработка страницы ${currentPage}...`);
+      const item = { key: this.activeItem?.key ?? itemKey ?? '', label: this.activeItem?.label ?? label };
+      this.emitEvent('page', { ...item, page: currentPage });
+
+      const pageContacts = await this.extractContacts();
+      console.log(`   Найдено ID: ${pageContacts.length}`);
+      pageSizes.set(currentPage, pageContacts.length);
+      const before = this.userIds.size;
+      pageContacts.forEach(c => this.userIds.add(c.id));
+      addContacts(this.contacts, pageContacts);
+      this.emitEvent('idsFound', {
+        ...item,
+        page: currentPage,
+        ids: pageContacts.map(c => c.id),
+        newIds: this.userIds.size - before,
+        total: this.userIds.size,
+      });
+
+      if (itemKey) {
+        this.checkpoint?.savePage(itemKey, label, currentPage, pageContacts.map(c => c.id), pageContacts);
+      }
+      this.pagesVisited = currentPage;
+
+      const nextButton = await this.findNextPageButton();
+      if (!nextButton) {
+        console.log('⚠️ Достигнута последняя страница');
+        break;
+      }
+
+      await this.goToNextPage(nextButton, currentPage + 1);
+      await this.assertSession(`Переход на страницу ${currentPage + 1}`);
+
+      currentPage++;
+    }
+
+    this.completeness = await this.verifyCompleteness(expected, pageSizes, currentPage > maxPages, itemKey, label);
+
+    this.recordHistory(Array.from(this.userIds));
+
+    return Array.from(this.userIds);
+  }
+
+  /**
+   * Поиск активной кнопки следующей страницы пагинации контактов
+   * @returns {Promise<ElementHandle | null>} null — кнопки нет или она выключена (последняя страница)
+   */
+  private async findNextPageButton() {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const nextButton = await this.page.$(this.profile.selectors.contacts.nextPage);
+    if (!nextButton) return null;
+
+    const isDisabled = await nextButton.evaluate(btn => {
+      return (btn as HTMLButtonElement).disabled ||
+             btn.classList.contains('disabled') ||
+             btn.hasAttribute('disabled');
+    });
+
+    return isDisabled ? null : nextButton;
+  }
+
+  /**
+   * Переход на следующую страницу пагинации
+   * Частоту кликов задаёт общий ограничитель, а готовность страницы — смена строк контактов
+   */
+  private async clickNextPage(nextButton: ElementHandle): Promise<void> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const profileLink = this.profile.selectors.contacts.profileLink;
+    const firstBefore = await this.page
+      .$eval(profileLink, a => (a as HTMLAnchorElement).href)
+      .catch(() => null);
+
+    await this.rateLimiter.acquire();
+    this.responseCollector.reset();
+    await nextButton.click();
+    await this.page.waitForLoadState('networkidle');
+
+    // Запрос страницы ушёл на вход — строки не сменятся, ждать нечего
+    if (firstBefore && !this.loginRedirectSeen) {
+      await this.page.waitForFunction(
+        ({ selector, before }) => (document.querySelector(selector) as HTMLAnchorElement | null)?.href !== before,
+        { selector: profileLink, before: firstBefore },
+        { timeout: 10000 },
+      ).catch(() => {
+        // строки не сменились — разберём то, что есть, как раньше после паузы
+      });
+    }
+  }
+
+  /**
+   * Переход на следующую страницу с повторами
+   * При повторе кнопка ищется заново: после сбоя страница могла перерисоваться
+   * @param pageNumber - Номер страницы, на которую переходим (для логов)
+   */
+  private async goToNextPage(nextButton: ElementHandle, pageNumber: number): Promise<void> {
+    await this.retry(`Переход на страницу ${pageNumber}`, async attempt => {
+      const button = attempt === 0 ? nextButton : await this.findNextPageButton();
+      if (!button) throw new Error('Кнопка следующей страницы пропала');
+      await this.clickNextPage(button);
+    });
+  }
+
+  /**
+   * Перемотка пагинации на заданное число страниц вперёд без сбора ID
+   * @param count - Сколько страниц пропустить
+   * @param from - Номер текущей страницы (для логов)
+   * @returns {Promise<number>} Сколько страниц удалось пропустить
+   */
+  private async skipPages(count: number, from = 1): Promise<number> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    let skipped = 0;
+    while (skipped < count) {
+      this.throwIfCancelled();
+      const nextButton = await this.findNextPageButton();
+      if (!nextButton) break;
+
+      await this.goToNextPage(nextButton, from + skipped + 1);
+      await this.assertSession(`Переход на страницу ${from + skipped + 1}`);
+      skipped++;
+
+      if (skipped % 50 === 0) {
+        console.log(`   ⏩ Пропущено страниц: ${skipped}/${count}`);
+      }
+    }
+
+    return skipped;
+  }
+
+  /**
+   * Счётчик контактов, который показывает сайт над списком
+   * @returns {Promise<number | null>} null — счётчика нет или в нём нет числа
+   */
+  private async readDisplayedTotal(): Promise<number | null> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const text = await this.page
+      .$eval(this.profile.selectors.contacts.total, el => el.textContent || '')
+      .catch(() => '');
+    return this.parseDisplayedCount(text);
+  }
+
+  /**
+   * Число из текста счётчика сайта по patterns.contactsTotal («Всего: 1 204» → 1204)
+   * @returns {number | null} null — числа нет
+   */
+  private parseDisplayedCount(text: string): number | null {
+    const match = text.match(new RegExp(this.profile.patterns.contactsTotal));
+    if (!match) return null;
+
+    const count = parseInt((match[1] ?? match[0]).replace(/\D/g, ''), 10);
+    return Number.isNaN(count) ? null : count;
+  }
+
+  /**
+   * Сверка собранного со счётчиком сайта
+   * При недоборе больше RESCAN_THRESHOLD % один раз перепроверяет неполные страницы
+   * (все, кроме последней, где строк меньше, чем на самой длинной) или последнюю, если таких нет
+   * @param expected - Счётчик сайта с первой страницы
+   * @param pageSizes - Строк на пройденных страницах
+   * @param maxPagesReached - Обход остановлен MAX_PAGES: недобор ожидаем, перепроверять нечего
+   */
+  private async verifyCompleteness(
+    expected: number | null,
+    pageSizes: Map<number, number>,
+    maxPagesReached: boolean,
+    itemKey?: string,
+    label = '',
+  ): Promise<Completeness> {
+    const result = (rescannedPages: number): Completeness => ({
+      status: expected === null ? 'unknown' : this.userIds.size >= expected ? 'complete' : 'incomplete',
+      expected,
+      actual: this.userIds.size,
+      maxPagesReached,
+      rescannedPages,
+    });
+
+    const threshold = this.config.rescanThreshold ?? 1;
+    const missing = expected === null ? 0 : expected - this.userIds.size;
+    if (expected === null || missing <= 0 || maxPagesReached || missing * 100 <= expected * threshold) {
+      const completeness = result(0);
+      if (completeness.status === 'incomplete') {
+        console.log(`⚠️ Собрано ${completeness.actual} ID из ${expected}${maxPagesReached ? ' (ограничение MAX_PAGES)' : ''}`);
+      }
+      return completeness;
+    }
+
+    const lastPage = Math.max(...pageSizes.keys());
+    const fullSize = Math.max(...pageSizes.values());
+    const shortPages = [...pageSizes]
+      .filter(([page, size]) => page < lastPage && size < fullSize)
+      .map(([page]) => page);
+    const pages = shortPages.length > 0 ? shortPages : [lastPage];
+
+    console.log(`\n🔁 Собрано ${this.userIds.size} ID из ${expected} — перепроверяю страницы: ${pages.join(', ')}`);
+    const rescanned = await this.rescanPages(pages, itemKey, label);
+
+    if (itemKey) {
+      // Перепроверенные страницы дописываются в журнал одной записью со всем собранным
+      this.checkpoint?.savePage(itemKey, label, this.pagesVisited, Array.from(this.userIds), this.getContacts());
+    }
+
+    const completeness = result(rescanned);
+    console.log(completeness.status === 'complete'
+      ? `✅ После перепроверки собрано ${completeness.actual} ID из ${expected}`
+      : `⚠️ После перепроверки собрано ${completeness.actual} ID из ${expected}`);
+    return completeness;
+  }
+
+  /**
+   * Повторный сбор ID с заданных страниц: перезагрузка списка и перемотка к каждой странице по порядку
+   * @param pages - Номера страниц по возрастанию
+   * @returns {Promise<number>} Сколько страниц удалось перепроверить
+   */
+  private async rescanPages(pages: number[], itemKey?: string, label = ''): Promise<number> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    await this.retry('Перезагрузка списка', async () => {
+      await this.rateLimiter.acquire();
+      this.responseCollector.reset();
+      await this.page!.reload({ waitUntil: 'networkidle' });
+    });
+    await this.assertSession('Перезагрузка списка');
+
+    let currentPage = 1;
+    let rescanned = 0;
+    for (const page of pages) {
+      if (page > currentPage) {
+        currentPage += await this.skipPages(page - currentPage, currentPage);
+        if (currentPage < page) {
+          console.log(`⚠️ Список стал короче: страницы ${page} больше нет`);
+          break;
+        }
+      }
+
+      const pageContacts = await this.extractContacts();
+      const before = this.userIds.size;
+      pageContacts.forEach(c => this.userIds.add(c.id));
+      addContacts(this.contacts, pageContacts);
+      console.log(`   📄 Страница ${page}: найдено ID ${pageContacts.length}, новых ${this.userIds.size - before}`);
+      this.emitEvent('idsFound', {
+        key: this.activeItem?.key ?? itemKey ?? '',
+        label: this.activeItem?.label ?? label,
+        page,
+        ids: pageContacts.map(c => c.id),
+        newIds: this.userIds.size - before,
+        total: this.userIds.size,
+      });
+      rescanned++;
+    }
+
+    return rescanned;
+  }
+
+  /**
+   * Сбор сообществ со страницы /groups
+   * @returns {Promise<{ id: string; name: string }[]>} ID из change_group_with_channel и названия
+   */
+  private async discoverGroups(): Promise<{ id: string; name: string }[]> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    console.log('📂 Переход на список сообществ...');
+    await this.retry('Открытие списка сообществ', async () => {
+      await this.page!.goto(this.pageUrl('groups'), { waitUntil: 'networkidle' });
+    });
+    await this.assertSession('Открытие списка сообществ');
+
+    return this.page.evaluate(({ sel, onclickPattern }) => {
+      const anchors = Array.from(document.querySelectorAll(sel.switchAnchor)) as HTMLAnchorElement[];
+      const items: { id: string; name: string }[] = [];
+      const seen = new Set<string>();
+
+      anchors.forEach(a => {
+        const onclick = a.getAttribute('onclick') || '';
+        const m = onclick.match(new RegExp(onclickPattern));
+        const id = m?.[1] || '';
+        if (!id || seen.has(id)) return;
+        seen.add(id);
+
+        let name = '';
+        const nameCandidate = a.querySelector(sel.switchName);
+        if (nameCandidate && nameCandidate.textContent) {
           const lines = nameCandidate.textContent.split('\n').map(s => s.trim()).filter(Boolean);
           name = (lines.find(s => !/^#/.test(s)) || lines[0] || '').trim();
         }
@@ -488,38 +1741,313 @@ class BotHunterVKParser {
       });
 
       return items;
+    }, { sel: this.profile.selectors.groups, onclickPattern: this.profile.patterns.groupSwitchOnclick });
+  }
+
+  /**
+   * Сбор списков текущего сообщества со страницы /contacts/lists
+   * @returns {Promise<{ name: string; href: string; members: number | null }[]>} Названия, ссылки
+   *   и число участников, показанное сайтом, без дублей
+   */
+  private async discoverLists(): Promise<{ name: string; href: string; members: number | null }[]> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    console.log('📂 Переход на страницы списков контактов...');
+    await this.retry('Открытие списков', async () => {
+      await this.page!.goto(this.pageUrl('lists'), { waitUntil: 'networkidle' });
     });
+    await this.assertSession('Открытие списков');
+    await this.page.waitForTimeout(500);
+
+    // Собираем списки по якорям вида:
+    // <a class="link-dark-primary" onclick="nav('/contacts/lists/1/<id>')"><h5>В работе</h5> ...</a>
+    const lists = await this.page.evaluate(({ sel, onclickPattern }) => {
+      const anchors = Array.from(document.querySelectorAll(sel.listAnchor)) as HTMLAnchorElement[];
+      const items: { name: string; href: string; count: string }[] = [];
+
+      anchors.forEach(a => {
+        const onclick = a.getAttribute('onclick') || '';
+        const m = onclick.match(new RegExp(onclickPattern));
+        const href = m?.[1] || '';
+
+        let name = '';
+        const h5 = a.querySelector(sel.listName);
+        if (h5 && h5.textContent) name = h5.textContent.trim();
+        if (!name && a.textContent) {
+          const lines = a.textContent.split('\n').map(s => s.trim()).filter(Boolean);
+          name = lines[0] || '';
+        }
+
+        const count = a.querySelector(sel.listCount)?.textContent?.trim() || '';
+        if (name && href) items.push({ name, href, count });
+      });
+
+      const seen: Record<string, boolean> = {};
+      return items.filter(it => {
+        const key = it.name.toLowerCase();
+        if (seen[key]) return false;
+        seen[key] = true;
+        return true;
+      });
+    }, { sel: this.profile.selectors.lists, onclickPattern: this.profile.patterns.listNavOnclick });
+
+    return lists.map(({ name, href, count }) => ({ name, href, members: this.parseDisplayedCount(count) }));
+  }
+
+  /**
+   * Режим 1: выгрузка ID для КАЖДОГО сообщества со страницы /groups
+   * При CONCURRENCY > 1 сообщества обрабатываются параллельно в отдельных контекстах,
+   * если переключение сообщества действует только на свой контекст
+   */
+  private async parseGroupsMode(): Promise<void> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const groups = this.filterGroups(await this.withSessionRecovery(() => this.discoverGroups()));
 
     console.log(`🔎 Найдено сообществ: ${groups.length}`);
+    this.progress.total = groups.length;
+
+    const pending: { group: { id: string; name: string }; index: number }[] = [];
+    groups.forEach((g, i) => {
+      if (this.checkpoint?.isCompleted(g.id)) {
+        console.log(`\n⏭️  [${i + 1}/${groups.length}] Уже выгружено ранее: ${g.name || g.id} (#${g.id})`);
+        this.progress.done++;
+      } else {
+        pending.push({ group: g, index: i });
+      }
+    });
+
+    const concurrency = Math.min(this.config.concurrency ?? 1, pending.length);
+    if (concurrency > 1 && await this.canSwitchGroupsInParallel(groups)) {
+      console.log(`⚡ Обрабатываем по ${concurrency} сообществ параллельно`);
+      await this.parseGroupsInParallel(pending, groups.length, concurrency);
+      return;
+    }
+
+    for (const { group, index } of pending) {
+      await this.runGroup(this, group, index, groups.length);
+    }
+  }
+
+  /**
+   * Отбор сообществ по GROUPS_FILTER и GROUPS_EXCLUDE: ID целиком или регулярное выражение
+   * по названию (без учёта регистра). В отличие от списков, пустой результат не заменяется всеми сообществами
+   */
+  private filterGroups(groups: { id: string; name: string }[]): { id: string; name: string }[] {
+    const include = this.config.groupFilters || [];
+    const exclude = this.config.groupExcludeFilters || [];
+    if (include.length === 0 && exclude.length === 0) return groups;
+
+    const matches = (g: { id: string; name: string }, filter: string) => g.id === filter || new RegExp(filter, 'i').test(g.name);
+    const selected = groups.filter(g =>
+      (include.length === 0 || include.some(f => matches(g, f))) && !exclude.some(f => matches(g, f)));
+
+    const skipped = groups.length - selected.length;
+    if (selected.length === 0) {
+      console.log(`⚠️ Ни одно из ${groups.length} сообществ не подходит под фильтр: ${[...include, ...exclude.map(f => `-${f}`)].join(', ')}`);
+    } else if (skipped > 0) {
+      console.log(`🔍 Отфильтровано сообществ: ${skipped} из ${groups.length}`);
+    }
+    return selected;
+  }
+
+  /**
+   * Выгрузка сообщества с изоляцией сбоя: ошибка попадает в отчёт, прогон идёт дальше
+   * Истёкшая сессия и отмена не изолируются — они прерывают весь прогон
+   * @param worker - Кто выгружает: основной парсер или рабочий параллельного режима
+   */
+  private async runGroup(worker: BotHunterVKParser, g: { id: string; name: string }, index: number, total: number): Promise<void> {
+    const label = `group_${g.name || g.id}`;
+    worker.throwIfCancelled();
+    worker.beginItem('group', g.id, label);
+    try {
+      const outcome = await worker.withSessionRecovery(() => worker.processGroup(g, index, total));
+      this.report?.success({ kind: 'group', key: g.id, label, ...outcome });
+    } catch (error) {
+      if (error instanceof SessionExpiredError || error instanceof RunCancelledError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`❌ Сообщество ${g.name || g.id} пропущено: ${message}`);
+      this.report?.failure({ kind: 'group', key: g.id, label, pages: worker.pagesVisited, ids: worker.userIds.size, error: message });
+      this.emitEvent('error', { item: { kind: 'group', key: g.id, label }, error: error instanceof Error ? error : new Error(message), fatal: false });
+    } finally {
+      worker.endItem();
+    }
+  }
+
+  /**
+   * Выгрузка одного сообщества: переключение, обход контактов, сохранение, отметка в чекпоинте
+   */
+  private async processGroup(g: { id: string; name: string }, index: number, total: number): Promise<ItemOutcome> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    this.userIds.clear();
+    this.pagesVisited = 0;
+
+    console.log(`\n➡️  [${index + 1}/${total}] Переключаюсь на: ${g.name || g.id} (#${g.id})`);
+    this.emitEvent('groupStart', { id: g.id, name: g.name, index, total });
+    await this.retry('Переключение сообщества', () => this.switchGroup(g));
+    await this.assertSession('Переключение сообщества');
+
+    if (this.history) {
+      // Для истории нужны ссылка и идентификатор сообщества — берём их с главной
+      await this.retry('Открытие главной', () => this.extractCommunityInfo());
+      await this.assertSession('Открытие главной');
+    }
+    this.collectTarget = {
+      label: `group_${g.name || g.id}`,
+      community: { ...this.communityData, groupId: g.id, name: g.name || this.communityData?.name || g.id },
+    };
+
+    console.log('📋 Открываем контакты выбранного сообщества...');
+    await this.retry('Открытие контактов', async () => {
+      await this.rateLimiter.acquire();
+      this.responseCollector.reset();
+      await this.page!.goto(this.pageUrl('contacts'), { waitUntil: 'networkidle' });
+    });
+    await this.assertSession('Открытие контактов');
+
+    const ids = await this.collectAllContactIds(g.id, `group_${g.name || g.id}`);
+    const savedPath = await this.exportItem(this.getContacts(), `group_${g.name || g.id}`);
+    console.log(`💾 ID сохранены: ${savedPath} (всего: ${ids.length})`);
+    this.checkpoint?.markCompleted(g.id);
+
+    return { ids: ids.length, pages: this.pagesVisited, file: savedPath, completeness: this.completeness };
+  }
+
+  /**
+   * Переключение выбранного сообщества кнопкой на /groups (или функцией сайта, если кнопки нет)
+   */
+  private async switchGroup(g: { id: string; name: string }): Promise<void> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const waitMs = this.config.waitAfterSwitchMs ?? 3000;
+
+    if (!this.page.url().startsWith(this.pageUrl('groups'))) {
+      await this.page.goto(this.pageUrl('groups'), { waitUntil: 'networkidle' });
+    }
+
+    let switchCandidate = null;
+    for (const button of this.profile.selectors.groups.switchButtons) {
+      switchCandidate = await this.page.$(`${button}[onclick*="${g.id}"]`);
+      if (switchCandidate) break;
+    }
+
+    if (switchCandidate) {
+      await switchCandidate.click();
+    } else {
+      await this.page.evaluate(({ id, fnPath }) => {
+        const fn = fnPath.split('.').reduce((obj: any, key) => obj?.[key], window as any);
+        if (typeof fn === 'function') fn(id, 'VK');
+      }, { id: g.id, fnPath: this.profile.selectors.groups.switchFunction });
+    }
+
+    await this.delay(waitMs, waitMs + 500);
+    this.selectedGroupId = g.id;
+  }
+
+  /**
+   * Проверка, что переключение сообщества действует только на свой контекст
+   * Два контекста выбирают разные сообщества; если первый после этого видит сообщество второго,
+   * выбор хранится в аккаунте и параллельная обработка перепутает выгрузки
+   */
+  private async canSwitchGroupsInParallel(groups: { id: string; name: string }[]): Promise<boolean> {
+    if (this.config.recordHar || this.config.replayHar) {
+      console.log('⚠️ При записи или воспроизведении HAR сообщества обрабатываются по очереди');
+      return false;
+    }
+    if (groups.length < 2) return false;
+
+    console.log('🔬 Проверяем, независимо ли переключение сообщества в разных контекстах...');
+    const [a, b] = await Promise.all([this.forkWorker(), this.forkWorker()]);
+
+    try {
+      await a.switchGroup(groups[0]);
+      await a.extractCommunityInfo();
+      const first = a.communityData?.name;
+
+      await b.switchGroup(groups[1]);
+      await b.extractCommunityInfo();
+      const second = b.communityData?.name;
+
+      await a.extractCommunityInfo();
+      const firstAgain = a.communityData?.name;
+
+      if (first && first !== second && firstAgain === first) {
+        return true;
+      }
+
+      console.log('⚠️ Выбор сообщества общий для всего аккаунта — параллельная обработка невозможна, обрабатываем по очереди');
+      return false;
+    } catch (error) {
+      console.log(`⚠️ Проверка не удалась (${error instanceof Error ? error.message : error}) — обрабатываем по очереди`);
+      return false;
+    } finally {
+      await Promise.all([a.closeWorker(), b.closeWorker()]);
+    }
+  }
 
-    for (let i = 0; i < groups.length; i++) {
-      const g = groups[i];
-      console.log(`\n➡️  [${i + 1}/${groups.length}] Переключаюсь на: ${g.name || g.id} (#${g.id})`);
+  /**
+   * Параллельная выгрузка сообществ пулом рабочих контекстов
+   */
+  private async parseGroupsInParallel(
+    pending: { group: { id: string; name: string }; index: number }[],
+    total: number,
+    concurrency: number,
+  ): Promise<void> {
+    const queue = [...pending];
+    const workers = await Promise.all(Array.from({ length: concurrency }, () => this.forkWorker()));
 
-      const switchCandidate = await this.page.$(`a.btn.btn-light[onclick*="${g.id}"]`)
-        || await this.page.$(`a.width-adaptive[onclick*="${g.id}"]`)
-        || await this.page.$(`a.d-flex[onclick*="${g.id}"]`);
+    try {
+      await Promise.all(workers.map(async worker => {
+        while (queue.length > 0) {
+          const { group, index } = queue.shift()!;
+          await this.runGroup(worker, group, index, total);
+        }
+      }));
+    } finally {
+      await Promise.all(workers.map(w => w.closeWorker()));
+    }
+  }
 
-      if (switchCandidate) {
-        await switchCandidate.click();
-      } else {
-        await this.page.evaluate((id) => {
-          const fn = (window as any).smm?.change_group_with_channel;
-          if (typeof fn === 'function') fn(id, 'VK');
-        }, g.id);
-      }
+  /**
+   * Рабочий парсер для параллельной обработки: свой контекст с копией сессии основного,
+   * общие ограничитель частоты, чекпоинт, история и сводка изменений
+   */
+  private async forkWorker(): Promise<BotHunterVKParser> {
+    if (!this.browser || !this.page) throw new Error('Браузер не инициализирован');
+
+    const worker = new BotHunterVKParser({ ...this.config, concurrency: 1 });
+    worker.rateLimiter = this.rateLimiter;
+    worker.checkpoint = this.checkpoint;
+    worker.history = this.history;
+    worker.historyRunId = this.historyRunId;
+    worker.diffSummaries = this.diffSummaries;
+    worker.exports = this.exports;
+    worker.runManifest = this.runManifest;
+    worker.cancellation = this.cancellation;
+    worker.progress = this.progress;
+    worker.eventTarget = this;
 
-      await this.delay(waitMs, waitMs + 500);
+    const context = await this.browser.newContext({
+      ...BROWSER_CONTEXT_OPTIONS,
+      storageState: await this.page.context().storageState(),
+    });
+    worker.page = await context.newPage();
+    worker.watchLoginRedirects(worker.page);
 
-      console.log('📋 Открываем контакты выбранного сообщества...');
-      await this.page.goto(`${this.config.baseUrl}/contacts`, { waitUntil: 'networkidle' });
+    if (this.config.idStrategy === 'network') {
+      worker.responseCollector.attach(worker.page);
+    }
 
-      const ids = await this.collectAllContactIds();
-      const savedPath = await this.writeIdsFile(ids, `group_${g.name || g.id}`);
-      console.log(`💾 ID сохранены: ${savedPath} (всего: ${ids.length})`);
+    return worker;
+  }
 
-      await this.page.goto(`${this.config.baseUrl}/groups`, { waitUntil: 'networkidle' });
-    }
+  /**
+   * Закрытие контекста рабочего парсера (сессию сохраняет только основной)
+   */
+  private async closeWorker(): Promise<void> {
+    await this.page?.context().close();
+    this.page = null;
   }
 
   /**
@@ -528,90 +2056,241 @@ class BotHunterVKParser {
   private async parseListsMode(): Promise<void> {
     if (!this.page) throw new Error('Браузер не инициализирован');
 
-    const defaultKeywords = ['в работе', 'отказ', 'одобрен', 'клик по офферу', 'клик по оффер', 'клик'];
-    const filters = this.config.listFilters && this.config.listFilters.length > 0
-      ? this.config.listFilters.map(s => s.toLowerCase())
-      : defaultKeywords;
+    if (this.history) {
+      await this.withSessionRecovery(async () => {
+        await this.retry('Открытие главной', () => this.extractCommunityInfo());
+        await this.assertSession('Открытие главной');
+      });
+    }
 
-    console.log('📂 Переход на страницы списков контактов...');
-    await this.page.goto(`${this.config.baseUrl}/contacts/lists`, { waitUntil: 'networkidle' });
-    await this.page.waitForTimeout(500);
+    const targetLists = this.selectLists(await this.withSessionRecovery(() => this.discoverLists()));
+    console.log(`🔎 Найдено списков по фильтру: ${targetLists.length}`);
+    this.progress.total = targetLists.length;
 
-    // Собираем списки по якорям вида:
-    // <a class="link-dark-primary" onclick="nav('/contacts/lists/1/<id>')"><h5>В работе</h5> ...</a>
-    const allLists = await this.page.evaluate(() => {
-      const anchors = Array.from(document.querySelectorAll('a.link-dark-primary[onclick*="/contacts/lists/"]')) as HTMLAnchorElement[];
-      const items: { name: string; href: string }[] = [];
+    for (let i = 0; i < targetLists.length; i++) {
+      await this.runList(targetLists[i], i, targetLists.length);
+    }
+  }
 
-      anchors.forEach(a => {
-        const onclick = a.getAttribute('onclick') || '';
-        const m = onclick.match(/nav\('([^']+)'\)/);
-        const href = m?.[1] || '';
+  /**
+   * Режим 2+: для каждого сообщества (с учётом фильтров) — переключение и выгрузка его списков по LISTS_FILTER
+   * Файлы подписываются названиями сообщества и списка
+   */
+  private async parseGroupListsMode(): Promise<void> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
 
-        let name = '';
-        const h5 = a.querySelector('h5');
-        if (h5 && h5.textContent) name = h5.textContent.trim();
-        if (!name && a.textContent) {
-          const lines = a.textContent.split('\n').map(s => s.trim()).filter(Boolean);
-          name = lines[0] || '';
-        }
+    const groups = this.filterGroups(await this.withSessionRecovery(() => this.discoverGroups()));
+    console.log(`🔎 Найдено сообществ: ${groups.length}`);
+    if ((this.config.concurrency ?? 1) > 1) {
+      console.log('⚠️ В режиме group-lists сообщества обрабатываются по очереди');
+    }
 
-        if (name && href) items.push({ name, href });
-      });
+    for (let gi = 0; gi < groups.length; gi++) {
+      this.throwIfCancelled();
+      const g = groups[gi];
+      console.log(`\n➡️  [${gi + 1}/${groups.length}] Переключаюсь на: ${g.name || g.id} (#${g.id})`);
+      this.emitEvent('groupStart', { id: g.id, name: g.name, index: gi, total: groups.length });
 
-      const seen: Record<string, boolean> = {};
-      return items.filter(it => {
-        const key = it.name.toLowerCase();
-        if (seen[key]) return false;
-        seen[key] = true;
-        return true;
-      });
-    });
+      let lists: { name: string; href: string }[];
+      try {
+        lists = await this.withSessionRecovery(async () => {
+          await this.selectGroup(g);
+          return this.selectLists(await this.discoverLists());
+        });
+      } catch (error) {
+        if (error instanceof SessionExpiredError || error instanceof RunCancelledError) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(`❌ Сообщество ${g.name || g.id} пропущено: ${message}`);
+        const item = { kind: 'group' as const, key: g.id, label: `group_${g.name || g.id}` };
+        this.report?.failure({ ...item, pages: 0, ids: 0, error: message });
+        this.emitEvent('error', { item, error: error instanceof Error ? error : new Error(message), fatal: false });
+        continue;
+      }
 
-    let targetLists = allLists.filter(l => {
-      const low = l.name.toLowerCase();
-      return filters.some(f => low.includes(f));
-    });
+      console.log(`🔎 Списков по фильтру: ${lists.length}`);
+      this.progress.total += lists.length;
+      for (let i = 0; i < lists.length; i++) {
+        await this.runList(lists[i], i, lists.length, g);
+      }
+    }
+  }
+
+  /**
+   * Переключение на сообщество, если выбрано другое; для истории — данные сообщества с главной
+   */
+  private async selectGroup(g: { id: string; name: string }): Promise<void> {
+    if (this.selectedGroupId === g.id) return;
+
+    await this.retry('Переключение сообщества', () => this.switchGroup(g));
+    await this.assertSession('Переключение сообщества');
+    if (this.history) {
+      await this.retry('Открытие главной', () => this.extractCommunityInfo());
+      await this.assertSession('Открытие главной');
+    }
+  }
+
+  /**
+   * Отбор списков по LISTS_FILTER (по умолчанию — рабочие статусы); если ничего не нашлось — все списки
+   */
+  private selectLists<T extends { name: string; href: string }>(allLists: T[]): T[] {
+    const targetLists = allLists.filter(l => matchListFilters(l.name, this.listFilterKeywords()).length > 0);
 
     if (targetLists.length === 0) {
       console.log('⚠️ По фильтрам ничего не нашлось — берём все доступные списки');
-      targetLists = allLists;
+      return allLists;
     }
+    return targetLists;
+  }
 
-    console.log(`🔎 Найдено списков по фильтру: ${targetLists.length}`);
+  /**
+   * Ключевые слова LISTS_FILTER или фильтр по умолчанию
+   */
+  private listFilterKeywords(): string[] {
+    return this.config.listFilters && this.config.listFilters.length > 0 ? this.config.listFilters : DEFAULT_LIST_FILTERS;
+  }
 
-    for (let i = 0; i < targetLists.length; i++) {
-      const name = targetLists[i].name;
-      console.log(`\n➡️  [${i + 1}/${targetLists.length}] Открываю список: ${name}`);
+  /**
+   * Ключ чекпоинта и подпись файлов списка; в group-lists — с сообществом
+   */
+  private listItem(target: { name: string; href: string }, group?: { id: string; name: string }): { key: string; label: string } {
+    if (!group) return { key: target.href, label: `list_${target.name}` };
+    return { key: `${group.id}:${target.href}`, label: `group_${group.name || group.id}_list_${target.name}` };
+  }
 
-      const target = allLists.find(l => l.name === name);
-      if (!target) {
-        console.log('⚠️ Ссылка для списка не найдена — пропуск');
-        continue;
-      }
+  /**
+   * Выгрузка списка с изоляцией сбоя, как у сообществ в runGroup
+   * @param group - Сообщество списка (режим group-lists)
+   */
+  private async runList(target: { name: string; href: string }, index: number, total: number, group?: { id: string; name: string }): Promise<void> {
+    this.throwIfCancelled();
+    const { key, label } = this.listItem(target, group);
+
+    if (this.checkpoint?.isCompleted(key)) {
+      console.log(`\n⏭️  [${index + 1}/${total}] Уже выгружено ранее: ${target.name}`);
+      this.progress.done++;
+      return;
+    }
 
-      await this.page.evaluate((href) => {
-        if (typeof (window as any).nav === 'function') {
-          (window as any).nav(href);
-        } else {
-          window.location.href = href;
-        }
-      }, target.href);
+    this.beginItem('list', key, label);
+    try {
+      const outcome = await this.withSessionRecovery(async () => {
+        // После повторного входа выбор сообщества мог сброситься
+        if (group) await this.selectGroup(group);
+        return this.processList(target, index, total, group);
+      });
+      this.report?.success({ kind: 'list', key, label, ...outcome });
+    } catch (error) {
+      if (error instanceof SessionExpiredError || error instanceof RunCancelledError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`❌ Список ${target.name} пропущен: ${message}`);
+      this.report?.failure({ kind: 'list', key, label, pages: this.pagesVisited, ids: this.userIds.size, error: message });
+      this.emitEvent('error', { item: { kind: 'list', key, label }, error: error instanceof Error ? error : new Error(message), fatal: false });
+    } finally {
+      this.endItem();
+    }
+  }
+
+  /**
+   * Выгрузка одного списка: переход через nav() сайта, обход контактов, сохранение
+   */
+  private async processList(
+    target: { name: string; href: string },
+    index: number,
+    total: number,
+    group?: { id: string; name: string },
+  ): Promise<ItemOutcome> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    const name = target.name;
+    const { key, label } = this.listItem(target, group);
+    this.userIds.clear();
+    this.pagesVisited = 0;
 
-      await this.page.waitForLoadState('networkidle');
-      await this.page.waitForTimeout(800);
+    console.log(`\n➡️  [${index + 1}/${total}] Открываю список: ${name}`);
+    this.emitEvent('listStart', { name, href: target.href, index, total, group: group || null });
 
-      try {
-        await this.page.waitForSelector('#followers-list-pagination, #followers-pagination', { timeout: 5000 });
-      } catch {}
+    const community = { ...(this.communityData || { name: 'Unknown' }) };
+    this.collectTarget = {
+      label,
+      community: group ? { ...community, groupId: group.id, name: group.name || community.name } : community,
+      list: { name, href: target.href },
+    };
+
+    await this.openList(target.href);
+
+    const ids = await this.collectAllContactIds(key, label);
+    const savedPath = await this.exportItem(this.getContacts(), label, buildFileStem(label, group ? 80 : undefined));
+    console.log(`💾 ID сохранены: ${savedPath} (всего: ${ids.length})`);
+    this.checkpoint?.markCompleted(key);
+
+    return { ids: ids.length, pages: this.pagesVisited, file: savedPath, completeness: this.completeness };
+  }
+
+  /**
+   * Переход в список через nav() сайта
+   * @param href - Ссылка списка со страницы /contacts/lists
+   */
+  private async openList(href: string): Promise<void> {
+    if (!this.page) throw new Error('Браузер не инициализирован');
+
+    await this.retry('Открытие списка', async () => {
+      // nav() есть только на странице списков — после сбоя или прошлого списка возвращаемся на неё
+      if (this.page!.url() !== this.pageUrl('lists')) {
+        await this.page!.goto(this.pageUrl('lists'), { waitUntil: 'networkidle' });
+        await this.page!.waitForTimeout(800);
+      }
+
+      this.responseCollector.reset();
+      // Сессию проверяем только после перехода: до него evaluate попадёт в уходящую страницу списков
+      const target = new URL(href, this.page!.url()).pathname;
+      const loginUrl = new RegExp(this.profile.patterns.loginUrl);
+      await Promise.all([
+        this.page!.waitForURL(url => url.pathname === target || loginUrl.test(url.pathname)),
+        this.page!.evaluate(({ href, navFunction }) => {
+          const nav = (window as any)[navFunction];
+          if (typeof nav === 'function') {
+            nav(href);
+          } else {
+            window.location.href = href;
+          }
+        }, { href, navFunction: this.profile.selectors.lists.navFunction }),
+      ]);
+
+      await this.page!.waitForLoadState('networkidle');
+    });
+    await this.assertSession('Открытие списка');
+    await this.page.waitForTimeout(800);
 
-      const ids = await this.collectAllContactIds();
-      const savedPath = await this.writeIdsFile(ids, `list_${name}`);
-      console.log(`💾 ID сохранены: ${savedPath} (всего: ${ids.length})`);
+    try {
+      await this.page.waitForSelector(this.profile.selectors.contacts.pagination, { timeout: 5000 });
+    } catch {}
+  }
 
-      await this.page.goto(`${this.config.baseUrl}/contacts/lists`, { waitUntil: 'networkidle' });
-      await this.page.waitForTimeout(800);
+  /**
+   * Режим 3: карта сообществ и списков текущего сообщества без обхода контактов
+   * Пишет каталог в JSON и CSV: что выберут GROUPS_FILTER/GROUPS_EXCLUDE и что находит каждое слово LISTS_FILTER
+   * @returns {Promise<string[]>} Записанные файлы каталога
+   */
+  private async parseInventoryMode(): Promise<string[]> {
+    const groups = await this.withSessionRecovery(() => this.discoverGroups());
+    const selectedGroups = new Set(this.filterGroups(groups).map(g => g.id));
+    console.log(`\n🔎 Сообщества (${groups.length}):`);
+    groups.forEach(g => console.log(`   ${selectedGroups.has(g.id) ? '✔' : '✘'} #${g.id}  ${g.name}`));
+
+    const lists = await this.withSessionRecovery(() => this.discoverLists());
+    const inventory = buildInventory(groups, selectedGroups, lists, this.listFilterKeywords());
+    console.log(`\n🔎 Списки текущего сообщества (${lists.length}):`);
+    inventory.lists.forEach(l => console.log(`   ${l.selected ? '✔' : '✘'} ${l.name}  ${l.members ?? '?'}  ${l.href}`));
+
+    console.log('\n🔍 Фильтр списков:');
+    inventory.listFilters.forEach(f => console.log(`   «${f.keyword}» → ${f.lists.length > 0 ? f.lists.join(', ') : '—'}`));
+    if (inventory.listFallback) {
+      console.log('⚠️ По фильтрам ничего не нашлось — режим lists возьмёт все списки');
     }
+
+    const files = writeInventory(inventory, this.getOutputDir(), formatFileTimestamp());
+    files.forEach(f => console.log(`💾 Каталог: ${f}`));
+    return files;
   }
 
   /**
@@ -631,57 +2310,520 @@ class BotHunterVKParser {
    */
   async close(): Promise<void> {
     if (this.page) {
-      await this.saveSession();
+      // При воспроизведении HAR куки не настоящие — сессию не перезаписываем
+      if (!this.config.replayHar) {
+        await this.saveSession();
+      }
+      if (this.config.recordHar) {
+        // HAR дописывается на диск только при закрытии контекста
+        await this.page.context().close();
+        console.log(`📼 HAR записан: ${this.config.recordHar}`);
+      }
     }
     if (this.browser) {
       await this.browser.close();
       console.log('👋 Браузер закрыт');
     }
+    this.page = null;
+    this.browser = null;
+  }
+}
+
+/**
+ * Парсер для прогона из CLI; при LOG_FORMAT=json его события идут в лог
+ */
+function createParser(config: ParserConfig): BotHunterVKParser {
+  const parser = new BotHunterVKParser(config);
+  if (config.logFormat === 'json') {
+    logParserEvents(parser);
+  }
+  return parser;
+}
+
+/**
+ * Команда accounts: список профилей, проверка авторизации, удаление
+ * @param args - Аргументы после accounts
+ * @param config - Настройки прогона (для check — адрес сайта, профиль сайта и т.п.)
+ * @returns {Promise<number>} Код выхода
+ */
+async function runAccountsCommand(args: string[], config: ParserConfig): Promise<number> {
+  const [action = 'list', name] = args;
+  const profiles = new AccountProfiles(config.accountsDir || './accounts');
+
+  switch (action) {
+    case 'list': {
+      const accounts = profiles.list();
+      if (accounts.length === 0) {
+        console.log(`Профилей нет. Создайте: tsx bothunter-vk-simple.ts login --account <имя>`);
+        return 0;
+      }
+      console.table(accounts.map(a => ({
+        account: a.name,
+        session_saved_at: a.sessionSavedAt || '—',
+        settings: Object.keys(a.settings).join(', ') || '—',
+        output: a.outputDir,
+      })));
+      return 0;
+    }
+
+    case 'check': {
+      const accounts = name ? [profiles.get(name)].filter(a => a !== null) : profiles.list();
+      if (accounts.length === 0) {
+        console.error(name ? `❌ Профиль не найден: ${name}` : 'Профилей нет');
+        return 1;
+      }
+
+      let allAuthorized = true;
+      for (const account of accounts) {
+        if (!account.sessionSavedAt) {
+          console.log(`❌ ${account.name}: вход не выполнялся`);
+          allAuthorized = false;
+          continue;
+        }
+
+        // Настройки аккаунта (BASE_URL, SITE_PROFILE из account.env) учитываются как при прогоне
+        const accountConfig = parseCommandLine(['--account', account.name, '--accounts-dir', config.accountsDir || './accounts', '--headless'], process.env).config;
+        const ok = await new BotHunterVKParser(accountConfig).checkSession();
+        console.log(ok ? `✅ ${account.name}: авторизован` : `❌ ${account.name}: сессия истекла — tsx bothunter-vk-simple.ts login --account ${account.name}`);
+        allAuthorized &&= ok;
+      }
+      return allAuthorized ? 0 : 1;
+    }
+
+    case 'remove':
+      if (!name) {
+        console.error('❌ Укажите имя профиля');
+        return 1;
+      }
+      if (!profiles.remove(name)) {
+        console.error(`❌ Профиль не найден: ${name}`);
+        return 1;
+      }
+      console.log(`🗑️  Профиль ${name} удалён вместе с сессией и выгрузками`);
+      return 0;
+
+    default:
+      console.error(`❌ Неизвестное действие: ${action} (list, check, remove)`);
+      return 1;
+  }
+}
+
+/**
+ * Команда serve: HTTP API с очередью прогонов до Ctrl+C
+ * Задания получают флаги сервера, поверх — свои параметры
+ * @param baseArgv - Флаги сервера без подкоманды
+ */
+async function runApiServer(config: ParserConfig, baseArgv: string[]): Promise<void> {
+  const queue = new JobQueue({
+    baseArgv,
+    env: process.env,
+    createRunner: jobConfig => createParser(jobConfig),
+  });
+  const server = new ApiServer(queue);
+  const url = await server.listen(config.apiPort ?? 8787, config.apiHost || '127.0.0.1');
+
+  console.log(`🌐 HTTP API: ${url}/jobs`);
+  console.log('   Прогоны выполняются по одному; Ctrl+C — остановка');
+
+  process.once('SIGINT', async () => {
+    console.log('\n⏹️  Останавливаем HTTP API...');
+    await server.close();
+    await queue.shutdown();
+    process.exit(0);
+  });
+}
+
+/**
+ * Команда schedule: run — планировщик до Ctrl+C, list — задания и ближайшие запуски, history — прошлые запуски
+ * @param baseArgv - Флаги планировщика без подкоманды и действия
+ * @returns {Promise<number | null>} Код выхода; null — планировщик запущен и работает
+ */
+async function runScheduleCommand(args: string[], config: ParserConfig, baseArgv: string[]): Promise<number | null> {
+  const [action = 'run'] = args;
+
+  let scheduler: JobScheduler;
+  try {
+    scheduler = new JobScheduler({
+      jobsFile: config.jobsFile || './jobs.json',
+      baseArgv,
+      env: process.env,
+      createRunner: jobConfig => createParser(jobConfig),
+    });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  switch (action) {
+    case 'list':
+      console.table(scheduler.plan().map(job => ({
+        job: job.name,
+        cron: job.cron,
+        mode: job.mode,
+        next_run: job.nextRunAt || '—',
+        last_status: job.lastRun?.status || '—',
+        last_run: job.lastRun?.startedAt || job.lastRun?.scheduledAt || '—',
+      })));
+      return 0;
+
+    case 'history':
+      console.table(scheduler.history().slice(-30).map(run => ({
+        job: run.job,
+        scheduled_at: run.scheduledAt,
+        status: run.status,
+        succeeded: run.succeeded ?? '',
+        failed: run.failed ?? '',
+        error: run.error || '',
+      })));
+      return 0;
+
+    case 'run':
+      scheduler.start();
+      console.log('   Задания выполняются по одному; Ctrl+C — остановка');
+      process.once('SIGINT', async () => {
+        console.log('\n⏹️  Останавливаем планировщик...');
+        await scheduler.stop();
+        process.exit(0);
+      });
+      return null;
+
+    default:
+      console.error(`❌ Неизвестное действие: ${action} (run, list, history)`);
+      return 1;
+  }
+}
+
+/**
+ * Команда audience: выражение над выгрузками и снимками истории, результат — обычной выгрузкой
+ * @param args - Выражение (можно без кавычек, части склеиваются через пробел)
+ * @param flags - --as подпись результата, --at дата для выбора выгрузок и снимков
+ * @returns {Promise<number>} Код выхода
+ */
+async function runAudienceCommand(args: string[], flags: Record<string, string>, config: ParserConfig): Promise<number> {
+  const expression = args.join(' ');
+  if (!expression.trim()) {
+    console.error('❌ Укажите выражение, например: audience "list_Клик - list_Одобрен"');
+    return 1;
+  }
+
+  const outDir = path.dirname(config.outputFile || 'bothunter_results.json');
+  const encryption = resolveEncryptionKey(config);
+  const sources = new AudienceSources({ outDir, historyDb: config.historyDb, at: flags.at, encryption });
+
+  try {
+    const tree = parseAudienceExpression(expression);
+    const operands = audienceOperands(tree).map(name => sources.resolve(name));
+    console.table(operands.map(o => ({ операнд: o.name, источник: o.source, ID: o.ids.size })));
+
+    const ids = Array.from(evaluateAudience(tree, new Map(operands.map(o => [o.name, o.ids]))));
+    const label = flags.as || `audience_${expression}`;
+    const fileStem = buildFileStem(label);
+    const idsPath = path.join(outDir, `bothunter_ids_${fileStem}.txt`);
+    fs.mkdirSync(outDir, { recursive: true });
+    writeSecureFile(idsPath, ids.join('\n'), encryption);
+    console.log(`\n🎯 ${expression}: ${ids.length} ID`);
+    console.log(`💾 ID сохранены: ${idsPath}`);
+
+    const exporters = resolveExporters(config.outputFormats || [], { maxBytes: config.vkAdsMaxBytes, idStyle: config.vkAdsIdStyle });
+    for (const exporter of exporters) {
+      const paths = await exporter.export({ contacts: ids.map(bareContact), label, outDir, fileStem, encryption });
+      paths.forEach(p => console.log(`💾 ${exporter.format}: ${p}`));
+    }
+    return 0;
+  } catch (error) {
+    if (!(error instanceof AudienceError || error instanceof EncryptionError)) throw error;
+    console.error(`❌ ${error.message}`);
+    return 1;
+  } finally {
+    sources.close();
+  }
+}
+
+/**
+ * Команда overlap: пересечения аудиторий сообществ из одного прогона groups или выбранных выгрузок
+ * @param args - Отчёт bothunter_report_*.json или операнды как в audience (подписи, #id, txt-файлы);
+ *   без аргументов — последний отчёт прогона groups
+ * @param flags - --min с какого числа сообществ считать пересекающихся пользователей, --at для подписей
+ * @returns {Promise<number>} Код выхода
+ */
+async function runOverlapCommand(args: string[], flags: Record<string, string>, config: ParserConfig): Promise<number> {
+  const minCommunities = flags.min === undefined ? 2 : Number(flags.min);
+  if (!Number.isInteger(minCommunities) || minCommunities < 1) {
+    console.error(`❌ --min: ожидается целое число от 1, получено "${flags.min}"`);
+    return 1;
+  }
+
+  const outDir = path.dirname(config.outputFile || 'bothunter_results.json');
+  const encryption = resolveEncryptionKey(config);
+  const sources = new AudienceSources({ outDir, historyDb: config.historyDb, at: flags.at, encryption });
+
+  try {
+    let operands: ResolvedOperand[];
+    if (args.length === 0 || (args.length === 1 && args[0].endsWith('.json'))) {
+      const reportPath = args[0] || latestGroupsReport(outDir);
+      if (!reportPath) throw new OverlapError(`в ${outDir} нет отчёта прогона groups — укажите отчёт или выгрузки`);
+      const run = operandsFromRunReport(reportPath, encryption);
+      console.log(`📄 Прогон ${run.mode}: ${path.basename(reportPath)}`);
+      operands = run.operands;
+    } else {
+      operands = Array.from(new Set(args)).map(name => sources.resolve(name));
+    }
+
+    const report = buildOverlap(operands, minCommunities);
+    console.table(report.communities.map(c => ({ сообщество: c.name, источник: c.source, ID: c.size, 'только здесь': c.uniqueIds.length })));
+    console.table(report.pairs.map(p => ({ A: p.a, B: p.b, общих: p.common, Jaccard: p.jaccard })));
+    console.log(`\n🌐 Охват без повторов: ${report.reach} ID`);
+    console.log(`👥 В ${minCommunities} и более сообществах: ${report.users.length}`);
+
+    fs.mkdirSync(outDir, { recursive: true });
+    writeOverlap(report, outDir, formatFileTimestamp(), encryption).forEach(p => console.log(`💾 ${p}`));
+    return 0;
+  } catch (error) {
+    if (!(error instanceof OverlapError || error instanceof AudienceError || error instanceof EncryptionError)) throw error;
+    console.error(`❌ ${error.message}`);
+    return 1;
+  } finally {
+    sources.close();
+  }
+}
+
+/**
+ * Команда import: ID из файла — в список сайта, пакетами; с --dry-run только показывает, что изменится
+ * @param args - Файл с ID (по одному в строке, как в bothunter_ids_*.txt)
+ * @param flags - --list название, --group ID или название, --batch-size, --dry-run
+ * @returns {Promise<number>} Код выхода
+ */
+async function runImportCommand(args: string[], flags: Record<string, string>, config: ParserConfig): Promise<number> {
+  const [file] = args;
+  if (!file || !flags.list) {
+    console.error('❌ Укажите файл и список: import bothunter_ids_....txt --list "Название списка"');
+    return 1;
+  }
+  const batchSize = flags['batch-size'] === undefined ? DEFAULT_IMPORT_BATCH_SIZE : Number(flags['batch-size']);
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    console.error(`❌ --batch-size: ожидается целое число от 1, получено "${flags['batch-size']}"`);
+    return 1;
+  }
+
+  try {
+    const { ids, invalid } = readImportIds(file, resolveEncryptionKey(config));
+    console.log(`📄 ${file}: ${ids.length} ID${invalid.length > 0 ? `, пропущено строк без ID: ${invalid.length}` : ''}`);
+    if (ids.length === 0) {
+      console.error('❌ В файле нет ID');
+      return 1;
+    }
+
+    const dryRun = flags['dry-run'] === 'true';
+    const result = await createParser(config).importIds({ ids, list: flags.list, group: flags.group, batchSize, dryRun });
+    const where = `«${result.list}»${result.group ? ` сообщества ${result.group.name || result.group.id}` : ''}`;
+
+    if (result.dryRun) {
+      console.log('\n🧪 Пробный запуск, на сайте ничего не изменено');
+      console.log(`   Список ${where}: ${result.created ? 'будет создан' : 'уже есть'}`);
+      console.log(`   Уже в списке: ${result.alreadyInList}, будет отправлено: ${result.toAdd} (пакетов: ${result.batches})`);
+    } else if (result.error) {
+      console.error(`\n❌ Список ${where}: ${result.error}`);
+      console.error(`   До сбоя отправлено ${result.sent} из ${result.toAdd}: принято ${result.accepted}, отклонено ${result.rejected}`);
+      console.error(`   При повторе уберите из файла первые ${result.sent} ID — они уже на сайте`);
+      return 1;
+    } else {
+      console.log(`\n✅ Список ${where}${result.created ? ' (создан)' : ''}: принято ${result.accepted}, отклонено ${result.rejected} из ${result.toAdd}`);
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof ListImportError || error instanceof SessionExpiredError || error instanceof EncryptionError) {
+      console.error(`❌ ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Команда decrypt: расшифровка выгрузок, сессии или чекпоинта для проверенного использования
+ * Незашифрованные файлы копируются как есть
+ * @param args - Файлы
+ * @param flags - --out: файл (для одного входного) или папка; без него — один файл в stdout
+ * @param config - Настройки прогона (ключ шифрования)
+ * @returns {Promise<number>} Код выхода
+ */
+async function runDecryptCommand(args: string[], flags: Record<string, string>, config: ParserConfig): Promise<number> {
+  if (args.length === 0) {
+    console.error('❌ Укажите файлы: decrypt bothunter_ids_....txt [--out файл|папка]');
+    return 1;
+  }
+  const out = flags.out;
+  const toDir = !!out && (args.length > 1 || (fs.existsSync(out) && fs.statSync(out).isDirectory()));
+  if (!out && args.length > 1) {
+    console.error('❌ Для нескольких файлов укажите папку: --out папка');
+    return 1;
+  }
+  const missing = args.filter(file => !fs.existsSync(file));
+  if (missing.length > 0) {
+    console.error(`❌ Файлы не найдены: ${missing.join(', ')}`);
+    return 1;
+  }
+
+  try {
+    const encryption = resolveEncryptionKey(config);
+    if (toDir) fs.mkdirSync(out, { recursive: true });
+    for (const file of args) {
+      const data = decryptBuffer(fs.readFileSync(file), encryption, file);
+      if (!out) {
+        process.stdout.write(data);
+        continue;
+      }
+      const target = toDir ? path.join(out, path.basename(file)) : out;
+      if (path.resolve(target) === path.resolve(file)) {
+        console.error(`❌ ${file}: --out совпадает с исходным файлом`);
+        return 1;
+      }
+      fs.writeFileSync(target, data);
+      console.log(`🔓 ${file} → ${target}`);
+    }
+    return 0;
+  } catch (error) {
+    if (!(error instanceof EncryptionError)) throw error;
+    console.error(`❌ ${error.message}`);
+    return 1;
   }
 }
 
 /**
  * Главная функция приложения
- * Инициализирует и запускает парсер с настройками из переменных окружения
+ * Разбирает подкоманду и флаги (поверх переменных окружения и .env) и запускает парсер
  * @returns {Promise<void>}
  */
 async function main() {
-  const parser = new BotHunterVKParser({
-    baseUrl: 'https://bot.targethunter.ru',
-    headless: process.env.HEADLESS === 'true',
-    maxPages: process.env.MAX_PAGES ? parseInt(process.env.MAX_PAGES) : undefined,
-    sessionPath: process.env.SESSION_PATH || './browser-session',
-    outputFile: process.env.OUTPUT_FILE || 'bothunter_results.json',
-    mode: (process.env.MODE as 'contacts' | 'groups' | 'lists') || 'contacts',
-    listFilters: process.env.LISTS_FILTER
-      ? process.env.LISTS_FILTER.split(',').map(s => s.trim()).filter(Boolean)
-      : undefined,
-    waitAfterSwitchMs: process.env.WAIT_AFTER_SWITCH_MS
-      ? parseInt(process.env.WAIT_AFTER_SWITCH_MS)
-      : undefined,
-  });
+  let cli;
+  try {
+    cli = parseCommandLine(process.argv.slice(2), process.env);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`❌ Ошибка в параметрах: ${error.message}`);
+      console.error('   Справка: tsx bothunter-vk-simple.ts --help');
+      process.exit(2);
+    }
+    throw error;
+  }
+
+  if (cli.help) {
+    console.log(helpText());
+    return;
+  }
+
+  if (cli.config.logFormat === 'json') {
+    enableJsonLog();
+  }
+
+  try {
+    // Ключ читается каждым прогоном из его настроек; здесь — только проверка файла ключа до запуска
+    resolveEncryptionKey(cli.config);
+  } catch (error) {
+    if (!(error instanceof EncryptionError)) throw error;
+    console.error(`❌ Ошибка в параметрах: ${error.message}`);
+    process.exit(2);
+  }
+
+  if (cli.command === 'decrypt') {
+    process.exit(await runDecryptCommand(cli.args, cli.commandFlags, cli.config));
+  }
+
+  if (cli.command === 'export') {
+    const flags = Object.entries(cli.commandFlags).flatMap(([k, v]) => [`--${k}`, v]);
+    process.env.HISTORY_DB = cli.config.historyDb;
+    process.exit(runHistoryCommand(['export', ...cli.args, ...flags], resolveEncryptionKey(cli.config)));
+  }
+
+  if (cli.command === 'audience') {
+    process.exit(await runAudienceCommand(cli.args, cli.commandFlags, cli.config));
+  }
+
+  if (cli.command === 'overlap') {
+    process.exit(await runOverlapCommand(cli.args, cli.commandFlags, cli.config));
+  }
+
+  if (cli.command === 'import') {
+    process.exit(await runImportCommand(cli.args, cli.commandFlags, cli.config));
+  }
+
+  if (cli.command === 'accounts') {
+    process.exit(await runAccountsCommand(cli.args, cli.config));
+  }
+
+  if (cli.command === 'serve') {
+    await runApiServer(cli.config, cli.optionArgv);
+    return;
+  }
+
+  if (cli.command === 'schedule') {
+    const code = await runScheduleCommand(cli.args, cli.config, cli.optionArgv);
+    if (code !== null) process.exit(code);
+    return;
+  }
+
+  const config = cli.config;
+  const parser = createParser(config);
 
   console.log('BotHunter VK Parser');
   console.log('==========================================\n');
   console.log('Настройки:');
-  console.log(`   Headless: ${process.env.HEADLESS === 'true' ? 'Да' : 'Нет'}`);
-  console.log(`   Режим: ${process.env.MODE || 'contacts'}`);
-  console.log(`   Макс. страниц: ${process.env.MAX_PAGES || 'Все'}`);
-  console.log(`   Путь сессии: ${process.env.SESSION_PATH || './browser-session'}`);
-  console.log(`   Фильтры списков (через запятую): ${process.env.LISTS_FILTER || '(по умолчанию: В работе, Отказ, Одобрен, Клик...)'}`);
-  console.log(`   Задержка после переключения (мс): ${process.env.WAIT_AFTER_SWITCH_MS || '3000'}`);
+  console.log(`   Команда: ${cli.command}`);
+  console.log(`   Аккаунт: ${config.account || '(без профиля)'}`);
+  console.log(`   Headless: ${config.headless ? 'Да' : 'Нет'}`);
+  console.log(`   Макс. страниц: ${config.maxPages || 'Все'}`);
+  console.log(`   Путь сессии: ${config.sessionPath}`);
+  console.log(`   Фильтры списков (через запятую): ${config.listFilters?.join(', ') || '(по умолчанию: В работе, Отказ, Одобрен, Клик...)'}`);
+  console.log(`   Фильтры сообществ: ${config.groupFilters?.join(', ') || '(все)'}${config.groupExcludeFilters?.length ? `, кроме: ${config.groupExcludeFilters.join(', ')}` : ''}`);
+  console.log(`   Задержка после переключения (мс): ${config.waitAfterSwitchMs ?? 3000}`);
+  console.log(`   Продолжение с чекпоинта: ${config.resume ? 'Да' : 'Нет'}`);
+  console.log(`   Извлечение ID: ${config.idStrategy}`);
+  console.log(`   Доп. форматы выгрузки: ${config.outputFormats?.join(', ') || '(только txt)'}`);
+  console.log(`   Сравнение с прошлой выгрузкой: ${config.diff ? 'Да' : 'Нет'}`);
+  const encrypted = !!(config.encryptionKey || config.encryptionKeyFile);
+  console.log(`   Шифрование сессии и выгрузок: ${encrypted ? 'Да' : 'Нет'}`);
+  console.log(`   База истории: ${config.historyDb || (encrypted ? '(выключена: с шифрованием только явно через --history-db)' : '(выключена)')}`);
+  console.log(`   Профиль сайта: ${config.siteProfile || '(встроенный)'}`);
+  console.log(`   Параллельных сообществ: ${config.concurrency ?? 1}`);
+  console.log(`   Интервал между запросами (мс): ${config.requestIntervalMs ?? 1000}`);
+  console.log(`   Повторы при сбое: ${config.retries ?? 2} (пауза от ${config.retryDelayMs ?? 2000} мс)`);
   console.log();
 
   try {
-    await parser.parse();
+    if (cli.command === 'login') {
+      const ok = await parser.login();
+      process.exit(ok ? 0 : 1);
+    }
+    if (cli.command === 'doctor') {
+      const ok = await parser.doctor();
+      process.exit(ok ? 0 : 1);
+    }
+    const report = await parser.parse();
+    if (report.hasFailures) {
+      // Часть сообществ или списков не выгружена — планировщику нужен ненулевой код
+      process.exit(1);
+    }
   } catch (error) {
+    if (error instanceof SessionExpiredError) {
+      console.error(`\n🔒 ${error.message}`);
+      console.error('Войдите заново (npm run login) и перезапустите с RESUME=true — выгруженное не потеряется');
+      process.exit(1);
+    }
+    if (error instanceof EncryptionError) {
+      console.error(`\n🔒 ${error.message}`);
+      process.exit(1);
+    }
     console.error('CRITICAL ERROR:', error);
     process.exit(1);
   }
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main();
+  main().catch(error => {
+    console.error('CRITICAL ERROR:', error);
+    process.exit(1);
+  });
 }
 
-export { BotHunterVKParser };
+export { BotHunterVKParser, SessionExpiredError, RunCancelledError };
+export type { ParserConfig, ParseResult, CommunityData, ParseProgress, ActiveItem, ParserEvents, PageIds };
@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { addContacts, type ContactRecord } from './contacts';
+import { EncryptionError, readSecureFile, writeSecureFile, encryptBuffer, decryptBuffer, type EncryptionKey } from './encryption';
+
+/**
+ * Незавершённый элемент (сообщество или список), на котором остановился прогон
+ */
+interface CheckpointItem {
+  /** Ключ элемента: id сообщества или href списка */
+  key: string;
+  label: string;
+  /** Последняя полностью обработанная страница */
+  lastPage: number;
+  userIds: string[];
+  /** Записи контактов, собранные до остановки */
+  contacts?: ContactRecord[];
+}
+
+/**
+ * Незавершённый элемент в checkpoint.json; ID и контакты — в журнале страниц элемента
+ */
+interface CheckpointItemState {
+  key: string;
+  label: string;
+  lastPage: number;
+  /** Строк журнала, записанных до lastPage: хвост после падения посреди страницы не читается */
+  pages: number;
+}
+
+/**
+ * Содержимое файла чекпоинта
+ */
+interface CheckpointData {
+  mode: string;
+  /** Ключи полностью выгруженных элементов */
+  completed: string[];
+  /** Незавершённые элементы по ключу: при CONCURRENCY>1 их несколько */
+  inProgress: Record<string, CheckpointItemState>;
+  updatedAt: string;
+}
+
+/**
+ * Строка журнала страниц: ID и контакты, добавленные одной страницей
+ */
+interface PageEntry {
+  userIds: string[];
+  contacts: ContactRecord[];
+}
+
+/**
+ * Чекпоинт прогона на диске: позволяет продолжить режимы groups/lists после падения
+ * Файл хранится рядом с сессией браузера (checkpoint.json); собранное по незавершённым элементам
+ * дописывается по странице в checkpoint-pages/<элемент>.jsonl, чтобы не переписывать всё на каждой странице
+ */
+class RunCheckpoint {
+  private filePath: string;
+  private pagesDir: string;
+  private data: CheckpointData;
+  private encryption: EncryptionKey | null;
+
+  /**
+   * @param sessionDir - Папка сессии, рядом с которой лежит чекпоинт
+   * @param mode - Режим прогона; чекпоинт другого режима игнорируется
+   * @param encryption - Ключ шифрования прогона; null — чекпоинт пишется как есть
+   */
+  constructor(sessionDir: string, mode: string, encryption: EncryptionKey | null) {
+    this.filePath = path.join(sessionDir, 'checkpoint.json');
+    this.pagesDir = path.join(sessionDir, 'checkpoint-pages');
+    this.encryption = encryption;
+    this.data = { mode, completed: [], inProgress: {}, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Загрузка сохранённого чекпоинта
+   * @returns {boolean} true если найден чекпоинт того же режима
+   */
+  load(): boolean {
+    if (!fs.existsSync(this.filePath)) return false;
+
+    try {
+      const saved = JSON.parse(readSecureFile(this.filePath, this.encryption)) as CheckpointData;
+      if (saved.mode !== this.data.mode) {
+        console.log(`⚠️ Чекпоинт относится к режиму ${saved.mode} — игнорируем`);
+        return false;
+      }
+      this.data = {
+        mode: saved.mode,
+        completed: saved.completed || [],
+        inProgress: saved.inProgress || {},
+        updatedAt: saved.updatedAt,
+      };
+      return true;
+    } catch (e) {
+      // Без ключа чекпоинт не потерян — молча начинать заново нельзя
+      if (e instanceof EncryptionError) throw e;
+      console.log('⚠️ Не удалось прочитать чекпоинт — начинаем заново');
+      return false;
+    }
+  }
+
+  /** Количество уже выгруженных элементов */
+  get completedCount(): number {
+    return this.data.completed.length;
+  }
+
+  /** Элемент уже выгружен в предыдущем прогоне */
+  isCompleted(key: string): boolean {
+    return this.data.completed.includes(key);
+  }
+
+  /**
+   * Сохранённый прогресс по элементу
+   * @returns {CheckpointItem | null} Прогресс, если прогон остановился на этом элементе
+   * @throws {EncryptionError} Если журнал страниц зашифрован, а ключа нет или он не подходит
+   */
+  getProgress(key: string): CheckpointItem | null {
+    const state = this.data.inProgress[key];
+    if (!state) return null;
+
+    const userIds = new Set<string>();
+    const contacts = new Map<string, ContactRecord>();
+    for (const entry of this.readPages(key, state.pages)) {
+      entry.userIds.forEach(id => userIds.add(id));
+      addContacts(contacts, entry.contacts);
+    }
+    return { key, label: state.label, lastPage: state.lastPage, userIds: Array.from(userIds), contacts: Array.from(contacts.values()) };
+  }
+
+  /**
+   * Фиксация обработанной страницы элемента
+   * @param userIds - ID, добавленные со времени прошлого вызова для элемента (страница)
+   * @param contacts - Контакты, добавленные или дополненные с того же момента
+   */
+  savePage(key: string, label: string, lastPage: number, userIds: string[], contacts: ContactRecord[] = []): void {
+    const state = this.data.inProgress[key];
+    if (!state) this.resetPages(key);
+    this.appendPage(key, { userIds, contacts });
+    this.data.inProgress[key] = { key, label, lastPage, pages: (state?.pages ?? 0) + 1 };
+    this.write();
+  }
+
+  /**
+   * Отметка элемента как полностью выгруженного
+   */
+  markCompleted(key: string): void {
+    if (!this.data.completed.includes(key)) {
+      this.data.completed.push(key);
+    }
+    delete this.data.inProgress[key];
+    this.write();
+    this.resetPages(key);
+  }
+
+  /**
+   * Удаление чекпоинта после успешного завершения прогона
+   */
+  clear(): void {
+    if (fs.existsSync(this.filePath)) {
+      fs.unlinkSync(this.filePath);
+    }
+    fs.rmSync(this.pagesDir, { recursive: true, force: true });
+  }
+
+  private write(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    this.data.updatedAt = new Date().toISOString();
+    // Пишем через временный файл, чтобы падение посреди записи не портило чекпоинт
+    const tmpPath = `${this.filePath}.tmp`;
+    writeSecureFile(tmpPath, JSON.stringify(this.data, null, 2), this.encryption);
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private pagesPath(key: string): string {
+    return path.join(this.pagesDir, `${createHash('sha1').update(key).digest('hex').slice(0, 16)}.jsonl`);
+  }
+
+  /**
+   * Строка журнала: JSON или, с ключом, зашифрованный JSON в base64
+   */
+  private appendPage(key: string, entry: PageEntry): void {
+    fs.mkdirSync(this.pagesDir, { recursive: true });
+    const json = JSON.stringify(entry);
+    const line = this.encryption ? encryptBuffer(Buffer.from(json, 'utf-8'), this.encryption).toString('base64') : json;
+    fs.appendFileSync(this.pagesPath(key), line + '\n', 'utf-8');
+  }
+
+  /**
+   * Первые count строк журнала элемента
+   */
+  private readPages(key: string, count: number): PageEntry[] {
+    const filePath = this.pagesPath(key);
+    if (!fs.existsSync(filePath)) return [];
+
+    return fs.readFileSync(filePath, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .slice(0, count)
+      .map(line => JSON.parse(line.startsWith('{')
+        ? line
+        : decryptBuffer(Buffer.from(line, 'base64'), this.encryption, filePath).toString('utf-8')));
+  }
+
+  private resetPages(key: string): void {
+    fs.rmSync(this.pagesPath(key), { force: true });
+  }
+}
+
+export { RunCheckpoint };
+export type { CheckpointData, CheckpointItem };
@@ -0,0 +1,391 @@
+import type { ParserConfig } from './bothunter-vk-simple';
+import { availableFormats } from './exporters';
+import { AccountProfiles } from './accounts';
+
+/**
+ * Подкоманды командной строки
+ */
+type CliCommand = 'login' | 'contacts' | 'groups' | 'lists' | 'group-lists' | 'inventory' | 'export' | 'audience' | 'overlap' | 'import' | 'decrypt' | 'doctor' | 'accounts' | 'serve' | 'schedule';
+
+const COMMANDS: Record<CliCommand, string> = {
+  login: 'вход через ВК и сохранение сессии',
+  contacts: 'ID текущего сообщества со страницы /contacts',
+  groups: 'ID каждого сообщества со страницы /groups',
+  lists: 'ID по спискам /contacts/lists текущего сообщества',
+  'group-lists': 'ID по спискам /contacts/lists каждого сообщества со страницы /groups',
+  inventory: 'карта сообществ и списков без обхода контактов',
+  export: 'выгрузка снимка из базы истории: export <подпись|#id> [--at ISO] [--out файл]',
+  audience: 'аудитория из выгрузок: audience "list_Клик - list_Одобрен" [--as подпись] [--at ISO]',
+  overlap: 'пересечение аудиторий сообществ: overlap [отчёт прогона | выгрузки...] [--min 2] [--at ISO]',
+  import: 'загрузка ID в список сайта: import <файл> --list название [--group ID|название] [--batch-size 100] [--dry-run]',
+  decrypt: 'расшифровка выгрузок и сессии: decrypt <файл...> [--out файл|папка]; без --out — в stdout',
+  doctor: 'проверка селекторов профиля сайта на живых страницах',
+  accounts: 'профили аккаунтов: accounts [list | check [имя] | remove <имя>]',
+  serve: 'локальный HTTP API: очередь прогонов, прогресс, отмена и файлы выгрузок',
+  schedule: 'планировщик заданий из JOBS_FILE: schedule [run | list | history]',
+};
+
+/**
+ * Описание настройки: флаг командной строки и переменная окружения под ним
+ */
+interface OptionSpec {
+  key: keyof ParserConfig;
+  flag: string;
+  env: string;
+  type: 'boolean' | 'int' | 'string' | 'list' | 'enum';
+  values?: readonly string[];
+  /** Минимальное значение для int */
+  min?: number;
+  default?: ParserConfig[keyof ParserConfig];
+  description: string;
+}
+
+const OPTIONS: OptionSpec[] = [
+  { key: 'account', flag: 'account', env: 'ACCOUNT', type: 'string', description: 'профиль аккаунта: своя сессия, папка выгрузок и account.env' },
+  { key: 'accountsDir', flag: 'accounts-dir', env: 'ACCOUNTS_DIR', type: 'string', default: './accounts', description: 'папка профилей аккаунтов' },
+  { key: 'baseUrl', flag: 'base-url', env: 'BASE_URL', type: 'string', default: 'https://bot.targethunter.ru', description: 'адрес сайта' },
+  { key: 'headless', flag: 'headless', env: 'HEADLESS', type: 'boolean', default: false, description: 'браузер без GUI' },
+  { key: 'maxPages', flag: 'max-pages', env: 'MAX_PAGES', type: 'int', min: 1, description: 'ограничение страниц (по умолчанию все)' },
+  { key: 'rescanThreshold', flag: 'rescan-threshold', env: 'RESCAN_THRESHOLD', type: 'int', min: 0, default: 1, description: 'допустимый недобор против счётчика сайта, %; при большем — перепроверка страниц' },
+  { key: 'sessionPath', flag: 'session-path', env: 'SESSION_PATH', type: 'string', default: './browser-session', description: 'папка сессии браузера' },
+  { key: 'outputFile', flag: 'output-file', env: 'OUTPUT_FILE', type: 'string', default: 'bothunter_results.json', description: 'файл результатов; рядом пишутся выгрузки' },
+  { key: 'mode', flag: 'mode', env: 'MODE', type: 'enum', values: ['contacts', 'groups', 'lists', 'group-lists', 'inventory'], default: 'contacts', description: 'режим, если подкоманда не указана' },
+  { key: 'listFilters', flag: 'lists-filter', env: 'LISTS_FILTER', type: 'list', description: 'фильтры названий списков через запятую' },
+  { key: 'groupFilters', flag: 'groups-filter', env: 'GROUPS_FILTER', type: 'list', description: 'сообщества groups и group-lists: регулярные выражения по названию или ID через запятую' },
+  { key: 'groupExcludeFilters', flag: 'groups-exclude', env: 'GROUPS_EXCLUDE', type: 'list', description: 'исключаемые сообщества: регулярные выражения по названию или ID через запятую' },
+  { key: 'waitAfterSwitchMs', flag: 'wait-after-switch-ms', env: 'WAIT_AFTER_SWITCH_MS', type: 'int', min: 0, description: 'задержка после переключения сообщества (мс, по умолчанию 3000)' },
+  { key: 'resume', flag: 'resume', env: 'RESUME', type: 'boolean', default: false, description: 'продолжить прерванный прогон с чекпоинта' },
+  { key: 'idStrategy', flag: 'id-strategy', env: 'ID_STRATEGY', type: 'enum', values: ['network', 'dom'], default: 'network', description: 'откуда брать ID' },
+  { key: 'outputFormats', flag: 'output-formats', env: 'OUTPUT_FORMATS', type: 'list', description: 'доп. форматы выгрузки через запятую' },
+  { key: 'vkAdsMaxBytes', flag: 'vkads-max-bytes', env: 'VKADS_MAX_BYTES', type: 'int', min: 1, description: 'лимит размера части файла VK Ads (байт)' },
+  { key: 'vkAdsIdStyle', flag: 'vkads-id-style', env: 'VKADS_ID_STYLE', type: 'enum', values: ['url', 'id'], description: 'вид строк в файле VK Ads' },
+  { key: 'diff', flag: 'diff', env: 'DIFF', type: 'boolean', default: false, description: 'сравнивать с прошлой выгрузкой' },
+  { key: 'runDirs', flag: 'run-dirs', env: 'RUN_DIRS', type: 'boolean', default: false, description: 'каждый прогон в своей папке runs/ с manifest.json и указателями latest/' },
+  { key: 'encryptionKey', flag: 'encryption-key', env: 'ENCRYPTION_KEY', type: 'string', description: 'ключ шифрования сессии и файлов с ID (пусто = без шифрования)' },
+  { key: 'encryptionKeyFile', flag: 'encryption-key-file', env: 'ENCRYPTION_KEY_FILE', type: 'string', description: 'файл с ключом шифрования (вместо ENCRYPTION_KEY)' },
+  { key: 'historyDb', flag: 'history-db', env: 'HISTORY_DB', type: 'string', default: 'bothunter_history.db', description: 'база истории SQLite (пусто = выключена)' },
+  { key: 'siteProfile', flag: 'site-profile', env: 'SITE_PROFILE', type: 'string', description: 'JSON с переопределением селекторов сайта' },
+  { key: 'recordHar', flag: 'record-har', env: 'RECORD_HAR', type: 'string', description: 'записать запросы прогона в HAR (фикстуры для тестов)' },
+  { key: 'replayHar', flag: 'replay-har', env: 'REPLAY_HAR', type: 'string', description: 'отвечать на запросы из HAR вместо сети' },
+  { key: 'concurrency', flag: 'concurrency', env: 'CONCURRENCY', type: 'int', min: 1, default: 1, description: 'сколько сообществ groups обрабатывать параллельно' },
+  { key: 'requestIntervalMs', flag: 'request-interval-ms', env: 'REQUEST_INTERVAL_MS', type: 'int', min: 0, default: 1000, description: 'интервал между запросами на все контексты (мс, фактически от N до 2N)' },
+  { key: 'retries', flag: 'retries', env: 'RETRIES', type: 'int', min: 0, default: 2, description: 'повторы перехода, переключения и пагинации после сбоя' },
+  { key: 'retryDelayMs', flag: 'retry-delay-ms', env: 'RETRY_DELAY_MS', type: 'int', min: 0, default: 2000, description: 'пауза перед первым повтором (мс), дальше удваивается' },
+  { key: 'apiPort', flag: 'api-port', env: 'API_PORT', type: 'int', min: 1, default: 8787, description: 'порт HTTP API (команда serve)' },
+  { key: 'notifyWebhooks', flag: 'notify-webhooks', env: 'NOTIFY_WEBHOOKS', type: 'list', description: 'адреса вебхуков для итогов прогона через запятую' },
+  { key: 'telegramBotToken', flag: 'telegram-bot-token', env: 'TELEGRAM_BOT_TOKEN', type: 'string', description: 'токен бота Telegram для итогов прогона' },
+  { key: 'telegramChatId', flag: 'telegram-chat-id', env: 'TELEGRAM_CHAT_ID', type: 'string', description: 'чат Telegram для итогов прогона' },
+  { key: 'telegramApiUrl', flag: 'telegram-api-url', env: 'TELEGRAM_API_URL', type: 'string', default: 'https://api.telegram.org', description: 'адрес Bot API (совместимый сервис)' },
+  { key: 'notifyAttachFiles', flag: 'notify-attach-files', env: 'NOTIFY_ATTACH_FILES', type: 'boolean', default: false, description: 'прикладывать файлы выгрузок к уведомлениям' },
+  { key: 'jobsFile', flag: 'jobs-file', env: 'JOBS_FILE', type: 'string', default: './jobs.json', description: 'файл заданий планировщика (команда schedule)' },
+  { key: 'apiHost', flag: 'api-host', env: 'API_HOST', type: 'string', default: '127.0.0.1', description: 'адрес HTTP API; 0.0.0.0 открывает его всей сети' },
+  { key: 'logFormat', flag: 'log-format', env: 'LOG_FORMAT', type: 'enum', values: ['text', 'json'], default: 'text', description: 'вывод: text или json (JSON Lines с событиями парсера)' },
+];
+
+/** Флаги отдельных подкоманд (не настройки) */
+const COMMAND_FLAGS: Partial<Record<CliCommand, string[]>> = {
+  export: ['at', 'out'],
+  audience: ['at', 'as'],
+  overlap: ['min', 'at'],
+  import: ['list', 'group', 'batch-size', 'dry-run'],
+  decrypt: ['out'],
+};
+
+/** Флаги подкоманд без значения */
+const COMMAND_SWITCHES = ['dry-run'];
+
+/**
+ * Ошибка в аргументах командной строки или переменных окружения
+ */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Результат разбора командной строки
+ */
+interface ParsedCommandLine {
+  command: CliCommand;
+  config: ParserConfig;
+  /** Позиционные аргументы после подкоманды */
+  args: string[];
+  /** Флаги подкоманды из COMMAND_FLAGS */
+  commandFlags: Record<string, string>;
+  /** Исходные аргументы без подкоманды и позиционных: настройки для прогонов, которые запускает serve или schedule */
+  optionArgv: string[];
+  help: boolean;
+}
+
+/**
+ * Приведение строкового значения к типу настройки
+ * @param source - Откуда пришло значение (для текста ошибки)
+ * @throws {CliUsageError} Если значение не подходит
+ */
+function convertValue(spec: OptionSpec, raw: string, source: string): ParserConfig[keyof ParserConfig] {
+  const value = raw.trim();
+
+  switch (spec.type) {
+    case 'boolean': {
+      const low = value.toLowerCase();
+      if (['true', '1', 'yes', ''].includes(low)) return true;
+      if (['false', '0', 'no'].includes(low)) return false;
+      throw new CliUsageError(`${source}: ожидается true или false, получено "${raw}"`);
+    }
+    case 'int': {
+      if (!/^\d+$/.test(value)) {
+        throw new CliUsageError(`${source}: ожидается целое число, получено "${raw}"`);
+      }
+      const n = parseInt(value, 10);
+      if (spec.min !== undefined && n < spec.min) {
+        throw new CliUsageError(`${source}: значение должно быть не меньше ${spec.min}, получено ${n}`);
+      }
+      return n;
+    }
+    case 'enum': {
+      if (!spec.values!.includes(value)) {
+        throw new CliUsageError(`${source}: неизвестное значение "${raw}" (допустимо: ${spec.values!.join(', ')})`);
+      }
+      return value as ParserConfig[keyof ParserConfig];
+    }
+    case 'list':
+      return value.split(',').map(s => s.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Конфигурация из переменных окружения (с умолчаниями)
+ * @throws {CliUsageError} Если значение переменной не подходит
+ */
+function configFromEnv(env: NodeJS.ProcessEnv): ParserConfig {
+  const config: Record<string, unknown> = {};
+
+  for (const spec of OPTIONS) {
+    const raw = env[spec.env];
+    if (raw !== undefined && (raw !== '' || spec.type === 'string')) {
+      config[spec.key] = convertValue(spec, raw, spec.env);
+    } else if (spec.default !== undefined) {
+      config[spec.key] = spec.default;
+    }
+  }
+
+  return config as unknown as ParserConfig;
+}
+
+/**
+ * Проверка настроек, которые зависят от других модулей
+ * @throws {CliUsageError} Если задан неизвестный формат выгрузки, некорректный фильтр сообществ или неполные настройки уведомлений
+ */
+function validateConfig(config: ParserConfig): void {
+  const known = [...availableFormats(), 'vkads'];
+  const unknown = (config.outputFormats || []).filter(f => !known.includes(f.toLowerCase()));
+  if (unknown.length > 0) {
+    throw new CliUsageError(`неизвестный формат выгрузки: ${unknown.join(', ')} (доступны: ${Array.from(new Set(known)).join(', ')})`);
+  }
+
+  for (const filter of [...(config.groupFilters || []), ...(config.groupExcludeFilters || [])]) {
+    try {
+      new RegExp(filter, 'i');
+    } catch {
+      throw new CliUsageError(`фильтр сообществ "${filter}" не является регулярным выражением`);
+    }
+  }
+
+  for (const url of config.notifyWebhooks || []) {
+    // Тот же разбор, что и при отправке: адрес с пробелом в хосте и т.п. отсекается здесь
+    let protocol: string | null = null;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      protocol = null;
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new CliUsageError(`NOTIFY_WEBHOOKS: ожидается адрес http(s)://..., получено "${url}"`);
+    }
+  }
+  if (!!config.telegramBotToken !== !!config.telegramChatId) {
+    throw new CliUsageError('для уведомлений в Telegram нужны оба параметра: TELEGRAM_BOT_TOKEN и TELEGRAM_CHAT_ID');
+  }
+}
+
+/**
+ * Разбор командной строки поверх переменных окружения
+ * Поддерживает --flag value, --flag=value, --no-flag для булевых и NAME=value как переменные окружения
+ * @param argv - Аргументы без node и имени скрипта
+ * @param env - Переменные окружения (включая загруженные из .env)
+ * @throws {CliUsageError} Если аргументы или значения некорректны
+ */
+function parseCommandLine(argv: string[], env: NodeJS.ProcessEnv = process.env): ParsedCommandLine {
+  const envOverrides: NodeJS.ProcessEnv = {};
+  const flagValues: { spec: OptionSpec; raw: string; source: string }[] = [];
+  const commandFlags: Record<string, string> = {};
+  const positionals: string[] = [];
+  /** Позиции позиционных аргументов: убираются из optionArgv по месту, а не по значению */
+  const positionalAt = new Set<number>();
+  let help = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--help' || arg === '-h') {
+      help = true;
+      continue;
+    }
+
+    if (/^[A-Z][A-Z0-9_]*=/.test(arg)) {
+      // Совместимость со старым вызовом: tsx bothunter-vk-simple.ts MAX_PAGES=2
+      const eq = arg.indexOf('=');
+      envOverrides[arg.slice(0, eq)] = arg.slice(eq + 1);
+      continue;
+    }
+
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      positionalAt.add(i);
+      continue;
+    }
+
+    const body = arg.slice(2);
+    const eq = body.indexOf('=');
+    let name = eq >= 0 ? body.slice(0, eq) : body;
+    let raw: string | undefined = eq >= 0 ? body.slice(eq + 1) : undefined;
+
+    if (COMMAND_SWITCHES.includes(name)) {
+      if (raw !== undefined) throw new CliUsageError(`--${name} не принимает значение`);
+      commandFlags[name] = 'true';
+      continue;
+    }
+
+    if (Object.values(COMMAND_FLAGS).some(flags => flags.includes(name))) {
+      const value = raw ?? argv[++i];
+      if (value === undefined) throw new CliUsageError(`--${name}: не указано значение`);
+      commandFlags[name] = value;
+      continue;
+    }
+
+    let spec = OPTIONS.find(o => o.flag === name);
+    if (!spec && name.startsWith('no-')) {
+      spec = OPTIONS.find(o => o.flag === name.slice(3) && o.type === 'boolean');
+      if (spec) {
+        if (raw !== undefined) throw new CliUsageError(`--${name} не принимает значение`);
+        name = spec.flag;
+        raw = 'false';
+      }
+    }
+    if (!spec) {
+      throw new CliUsageError(`неизвестный флаг --${name}`);
+    }
+
+    if (raw === undefined) {
+      if (spec.type === 'boolean') {
+        raw = 'true';
+      } else {
+        raw = argv[++i];
+        if (raw === undefined || raw.startsWith('--')) {
+          throw new CliUsageError(`--${name}: не указано значение`);
+        }
+      }
+    }
+
+    flagValues.push({ spec, raw, source: `--${name}` });
+  }
+
+  const baseEnv = { ...env, ...envOverrides };
+  const flagValue = (key: keyof ParserConfig) => flagValues.filter(f => f.spec.key === key).pop()?.raw;
+  const account = flagValue('account') ?? baseEnv.ACCOUNT;
+  let accountEnv: NodeJS.ProcessEnv = {};
+
+  if (account) {
+    if (!AccountProfiles.isValidName(account)) {
+      throw new CliUsageError(`некорректное имя аккаунта "${account}" (латиница, цифры, _ . -)`);
+    }
+    // Пути профиля и account.env перекрывают общий .env, но не флаги и NAME=value из командной строки
+    const profiles = new AccountProfiles(flagValue('accountsDir') ?? baseEnv.ACCOUNTS_DIR ?? './accounts');
+    accountEnv = profiles.environment(account);
+  }
+
+  const config = configFromEnv({ ...env, ...accountEnv, ...envOverrides }) as unknown as Record<string, unknown>;
+  for (const { spec, raw, source } of flagValues) {
+    config[spec.key] = convertValue(spec, raw, source);
+  }
+  // SQLite не шифруется: с ключом история ведётся, только если база задана в командной строке явно,
+  // а не пришла из умолчания или .env
+  if ((config.encryptionKey || config.encryptionKeyFile) && config.historyDb
+    && flagValue('historyDb') === undefined && envOverrides.HISTORY_DB === undefined) {
+    config.historyDb = '';
+  }
+
+  let command: CliCommand;
+  const first = positionals[0];
+  if (first && first in COMMANDS) {
+    command = positionals.shift() as CliCommand;
+  } else if (first) {
+    throw new CliUsageError(`неизвестная команда "${first}" (доступны: ${Object.keys(COMMANDS).join(', ')})`);
+  } else {
+    command = (config.mode as CliCommand) || 'contacts';
+  }
+
+  if (command === 'contacts' || command === 'groups' || command === 'lists' || command === 'group-lists' || command === 'inventory') {
+    config.mode = command;
+  }
+
+  const foreign = Object.keys(commandFlags).filter(f => !COMMAND_FLAGS[command]?.includes(f));
+  if (foreign.length > 0) {
+    throw new CliUsageError(`флаги ${foreign.map(f => `--${f}`).join(', ')} не относятся к команде ${command}`);
+  }
+
+  const parsed = config as unknown as ParserConfig;
+  validateConfig(parsed);
+
+  const optionArgv = argv.filter((_, i) => !positionalAt.has(i));
+  return { command, config: parsed, args: positionals, commandFlags, optionArgv, help };
+}
+
+/**
+ * Настройки в виде флагов командной строки — чтобы проверить их тем же разбором, что и CLI
+ * @throws {CliUsageError} Если у настройки нет флага
+ */
+function configArgv(options: Partial<Record<keyof ParserConfig, unknown>>): string[] {
+  return Object.entries(options)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const spec = OPTIONS.find(o => o.key === key);
+      if (!spec) throw new CliUsageError(`неизвестная настройка ${key}`);
+      return `--${spec.flag}=${Array.isArray(value) ? value.join(',') : String(value)}`;
+    });
+}
+
+/**
+ * Текст справки
+ */
+function helpText(): string {
+  const commandLines = Object.entries(COMMANDS)
+    .map(([name, description]) => `  ${name.padEnd(12)}${description}`);
+
+  const optionLines = OPTIONS.map(o => {
+    const value = o.type === 'boolean' ? '' : o.type === 'enum' ? `=<${o.values!.join('|')}>` : o.type === 'int' ? '=<число>' : '=<значение>';
+    const def = o.default !== undefined && o.default !== '' ? ` [${o.default}]` : '';
+    return `  --${(o.flag + value).padEnd(33)} ${o.description}${def}\n  ${''.padEnd(36)}env: ${o.env}`;
+  });
+
+  return [
+    'Использование: tsx bothunter-vk-simple.ts [команда] [флаги]',
+    '',
+    'Команды:',
+    ...commandLines,
+    '',
+    'Флаги (по умолчанию берутся из переменных окружения и .env):',
+    ...optionLines,
+    '  --help                              эта справка',
+    '',
+    'Булевы флаги: --headless, --headless=false, --no-headless.',
+    'Без команды выполняется режим из MODE (по умолчанию contacts).',
+  ].join('\n');
+}
+
+export { parseCommandLine, configFromEnv, configArgv, helpText, CliUsageError, OPTIONS };
+export type { CliCommand, ParsedCommandLine, OptionSpec };
@@ -0,0 +1,58 @@
+/**
+ * Запись о контакте со страницы /contacts
+ */
+interface ContactRecord {
+  /** ID пользователя ВК */
+  id: string;
+  /** Имя и фамилия, как показаны в строке */
+  name: string;
+  /** Ссылка на профиль ВК */
+  profileUrl: string;
+  /** Дата подписки в том виде, как её показывает сайт */
+  subscribedAt: string;
+  /** Теги контакта */
+  tags: string[];
+  /** Списки, в которые входит контакт */
+  lists: string[];
+}
+
+/**
+ * Запись только с ID — когда о контакте больше ничего не известно
+ */
+function bareContact(id: string): ContactRecord {
+  return {
+    id,
+    name: '',
+    profileUrl: `https://vk.com/id${id}`,
+    subscribedAt: '',
+    tags: [],
+    lists: [],
+  };
+}
+
+/**
+ * Объединение двух записей об одном контакте: пустые поля первой дополняются из второй
+ */
+function mergeContact(base: ContactRecord, extra: Partial<ContactRecord>): ContactRecord {
+  return {
+    id: base.id,
+    name: base.name || extra.name || '',
+    profileUrl: base.profileUrl || extra.profileUrl || '',
+    subscribedAt: base.subscribedAt || extra.subscribedAt || '',
+    tags: Array.from(new Set([...base.tags, ...(extra.tags || [])])),
+    lists: Array.from(new Set([...base.lists, ...(extra.lists || [])])),
+  };
+}
+
+/**
+ * Добавление записей в коллекцию контактов с объединением дублей по ID
+ */
+function addContacts(target: Map<string, ContactRecord>, records: ContactRecord[]): void {
+  for (const record of records) {
+    const existing = target.get(record.id);
+    target.set(record.id, existing ? mergeContact(existing, record) : record);
+  }
+}
+
+export { bareContact, mergeContact, addContacts };
+export type { ContactRecord };
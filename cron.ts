@@ -0,0 +1,132 @@
+/**
+ * Поле cron-выражения: допустимый диапазон значений
+ */
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { name: 'минуты', min: 0, max: 59 },
+  { name: 'часы', min: 0, max: 23 },
+  { name: 'день месяца', min: 1, max: 31 },
+  { name: 'месяц', min: 1, max: 12 },
+  { name: 'день недели', min: 0, max: 7 },
+];
+
+/** Сокращения: @daily вместо 0 0 * * * и т.п. */
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+/** Дальше года вперёд не ищем: такое выражение не сработает никогда (например, 31 февраля) */
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+/**
+ * Ошибка разбора cron-выражения
+ */
+class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`cron "${expression}": ${reason}`);
+    this.name = 'CronParseError';
+  }
+}
+
+/**
+ * Разбор одного поля: *, N, A-B, списки через запятую и шаг /N
+ */
+function parseField(expression: string, source: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const m = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!m) throw new CronParseError(expression, `${field.name}: не понимаю "${part}"`);
+
+    let from: number;
+    let to: number;
+    if (m[1] === '*') {
+      [from, to] = [field.min, field.max];
+    } else if (m[1].includes('-')) {
+      [from, to] = m[1].split('-').map(Number);
+    } else {
+      // 5/15 — с пятой минуты каждые 15
+      from = Number(m[1]);
+      to = m[2] ? field.max : from;
+    }
+    const step = m[2] ? Number(m[2]) : 1;
+
+    if (from < field.min || to > field.max || from > to || step < 1) {
+      throw new CronParseError(expression, `${field.name}: "${part}" вне диапазона ${field.min}-${field.max}`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Cron-выражение из пяти полей (минуты, часы, день месяца, месяц, день недели) по местному времени
+ * Как в crontab: если заданы и день месяца, и день недели, достаточно совпадения одного из них
+ */
+class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private days: Set<number>;
+  private months: Set<number>;
+  private weekdays: Set<number>;
+  private anyDay: boolean;
+  private anyWeekday: boolean;
+
+  /**
+   * @throws {CronParseError} Если выражение некорректно
+   */
+  constructor(expression: string) {
+    this.source = expression.trim();
+    const parts = (MACROS[this.source] || this.source).split(/\s+/);
+    if (parts.length !== 5) {
+      throw new CronParseError(expression, `ожидается 5 полей, получено ${parts.length}`);
+    }
+
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] = parts.map((p, i) => parseField(expression, p, FIELDS[i]));
+    // 7 — тоже воскресенье
+    if (this.weekdays.delete(7)) this.weekdays.add(0);
+    this.anyDay = parts[2] === '*';
+    this.anyWeekday = parts[4] === '*';
+  }
+
+  /**
+   * Совпадает ли минута с выражением
+   */
+  matches(date: Date): boolean {
+    if (!this.minutes.has(date.getMinutes()) || !this.hours.has(date.getHours()) || !this.months.has(date.getMonth() + 1)) {
+      return false;
+    }
+
+    const day = this.days.has(date.getDate());
+    const weekday = this.weekdays.has(date.getDay());
+    if (this.anyDay || this.anyWeekday) return day && weekday;
+    return day || weekday;
+  }
+
+  /**
+   * Ближайший запуск строго после after (с точностью до минуты)
+   * @returns {Date | null} null если выражение не срабатывает в ближайший год
+   */
+  next(after: Date): Date | null {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+
+    for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+      date.setMinutes(date.getMinutes() + 1);
+      if (this.matches(date)) return new Date(date);
+    }
+    return null;
+  }
+}
+
+export { CronExpression, CronParseError };
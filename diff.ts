@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { readSecureFile, writeSecureFile, type EncryptionKey } from './encryption';
+
+/**
+ * Разобранное имя файла bothunter_ids_<ts>_<label>_<hash>.txt
+ */
+interface IdsFileInfo {
+  filePath: string;
+  /** Метка времени ddMMyyyyHHmmss из имени */
+  timestamp: string;
+  /** Слаг подписи (результат slugifyLabel) */
+  slug: string;
+  hash: string;
+}
+
+/**
+ * Итог сравнения выгрузки с предыдущей
+ */
+interface DiffSummary {
+  label: string;
+  previousFile: string;
+  currentFile: string;
+  previousCount: number;
+  currentCount: number;
+  added: number;
+  removed: number;
+  unchanged: number;
+  addedFile: string;
+  removedFile: string;
+  timestamp: string;
+}
+
+/** Папки прогонов (RUN_DIRS=true) внутри папки выгрузок */
+const RUNS_DIR = 'runs';
+
+const IDS_FILE_PATTERN = /^bothunter_ids_(\d{14})_(.+)_([a-z0-9]+)\.txt$/;
+
+/**
+ * Разбор имени файла с ID
+ * @returns {IdsFileInfo | null} null если имя не в формате writeIdsFile
+ */
+function parseIdsFileName(filePath: string): IdsFileInfo | null {
+  const m = path.basename(filePath).match(IDS_FILE_PATTERN);
+  if (!m) return null;
+  return { filePath, timestamp: m[1], slug: m[2], hash: m[3] };
+}
+
+/**
+ * Метка времени ddMMyyyyHHmmss для имён файлов
+ */
+function formatFileTimestamp(d: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const dd = pad(d.getDate());
+  const mm = pad(d.getMonth() + 1);
+  const yyyy = d.getFullYear();
+  const HH = pad(d.getHours());
+  const MM = pad(d.getMinutes());
+  const SS = pad(d.getSeconds());
+  return `${dd}${mm}${yyyy}${HH}${MM}${SS}`;
+}
+
+/**
+ * Слагификация подписи для имён файлов
+ * Длиннее max — обрезается, а в конце добавляется хеш полной подписи: иначе разные подписи
+ * с общим началом получили бы один слаг, и DIFF сравнивал бы выгрузки разных сообществ
+ */
+function slugifyLabel(v: string, max = 40): string {
+  const slug = (v || 'item')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9А-Яа-я_\-\s]/g, '')
+    .trim()
+    .replace(/\s+/g, '_') || 'item';
+  if (slug.length <= max) return slug;
+
+  const hash = createHash('sha1').update(v).digest('hex').slice(0, 6);
+  return `${slug.slice(0, max - hash.length - 1)}-${hash}`;
+}
+
+/**
+ * Общая часть имён файлов одной выгрузки: <ts>_<label>_<hash>
+ * @param max - Предел длины подписи
+ */
+function buildFileStem(label: string, max?: number): string {
+  const hash = Math.random().toString(36).slice(2, 8);
+  return `${formatFileTimestamp()}_${slugifyLabel(label, max)}_${hash}`;
+}
+
+/**
+ * Перевод ddMMyyyyHHmmss в сортируемый вид yyyyMMddHHmmss
+ */
+function sortableTimestamp(ts: string): string {
+  return `${ts.slice(4, 8)}${ts.slice(2, 4)}${ts.slice(0, 2)}${ts.slice(8)}`;
+}
+
+/**
+ * Папка выгрузок и папки прогонов в ней (runs/<ts>_<режим>)
+ */
+function exportDirs(outDir: string): string[] {
+  if (!fs.existsSync(outDir)) return [];
+
+  const runsDir = path.join(outDir, RUNS_DIR);
+  const runs = fs.existsSync(runsDir)
+    ? fs.readdirSync(runsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(runsDir, entry.name))
+      .sort()
+    : [];
+  return [outDir, ...runs];
+}
+
+/**
+ * Все txt-выгрузки в папке выгрузок, включая папки прогонов
+ */
+function listIdsFiles(outDir: string): IdsFileInfo[] {
+  return exportDirs(outDir).flatMap(dir => fs.readdirSync(dir)
+    .map(name => parseIdsFileName(path.join(dir, name)))
+    .filter((info): info is IdsFileInfo => !!info));
+}
+
+/**
+ * Поиск последней выгрузки с тем же слагом подписи (хеш в имени не учитывается)
+ * @param outDir - Папка с выгрузками (и прогонами в ней)
+ * @param slug - Слаг подписи
+ * @param currentFile - Текущая выгрузка, которую надо исключить
+ */
+function findPreviousExport(outDir: string, slug: string, currentFile: string): IdsFileInfo | null {
+  const current = parseIdsFileName(currentFile);
+  const candidates = listIdsFiles(outDir)
+    .filter(info => info.slug === slug)
+    .filter(info => path.resolve(info.filePath) !== path.resolve(currentFile))
+    .filter(info => !current || sortableTimestamp(info.timestamp) <= sortableTimestamp(current.timestamp))
+    .sort((a, b) => sortableTimestamp(b.timestamp).localeCompare(sortableTimestamp(a.timestamp)));
+
+  return candidates[0] || null;
+}
+
+/**
+ * Чтение ID из txt-выгрузки
+ * @param key - Ключ для зашифрованных выгрузок
+ */
+function readIdsFile(filePath: string, key: EncryptionKey | null = null): string[] {
+  return readSecureFile(filePath, key)
+    .split(/\r?\n/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Сравнение двух наборов ID
+ */
+function diffIds(previous: string[], current: string[]): { added: string[]; removed: string[]; unchanged: number } {
+  const prevSet = new Set(previous);
+  const currSet = new Set(current);
+  const added = Array.from(currSet).filter(id => !prevSet.has(id));
+  const removed = Array.from(prevSet).filter(id => !currSet.has(id));
+  return { added, removed, unchanged: currSet.size - added.length };
+}
+
+/**
+ * Сравнение свежей выгрузки с предыдущей для той же подписи
+ * Пишет bothunter_added_<stem>.txt, bothunter_removed_<stem>.txt и сводку bothunter_diff_<stem>.json
+ * @param currentFile - Только что записанный bothunter_ids_<stem>.txt
+ * @param label - Подпись выгрузки
+ * @param key - Ключ шифрования прогона: им читаются выгрузки и пишутся файлы разницы
+ * @param searchDir - Где искать предыдущую: по умолчанию папка текущей; при RUN_DIRS — общая папка выгрузок
+ * @returns {DiffSummary | null} null если предыдущей выгрузки нет
+ */
+function writeDiff(currentFile: string, label: string, key: EncryptionKey | null, searchDir = path.dirname(currentFile)): DiffSummary | null {
+  const current = parseIdsFileName(currentFile);
+  if (!current) return null;
+
+  const outDir = path.dirname(currentFile);
+  const previous = findPreviousExport(searchDir, current.slug, currentFile);
+  if (!previous) return null;
+
+  const prevIds = readIdsFile(previous.filePath, key);
+  const currIds = readIdsFile(currentFile, key);
+  const { added, removed, unchanged } = diffIds(prevIds, currIds);
+
+  const stem = `${current.timestamp}_${current.slug}_${current.hash}`;
+  const addedFile = path.join(outDir, `bothunter_added_${stem}.txt`);
+  const removedFile = path.join(outDir, `bothunter_removed_${stem}.txt`);
+  writeSecureFile(addedFile, added.join('\n'), key);
+  writeSecureFile(removedFile, removed.join('\n'), key);
+
+  const summary: DiffSummary = {
+    label,
+    previousFile: previous.filePath,
+    currentFile,
+    previousCount: new Set(prevIds).size,
+    currentCount: new Set(currIds).size,
+    added: added.length,
+    removed: removed.length,
+    unchanged,
+    addedFile,
+    removedFile,
+    timestamp: new Date().toISOString(),
+  };
+
+  writeSecureFile(path.join(outDir, `bothunter_diff_${stem}.json`), JSON.stringify(summary, null, 2), key);
+  return summary;
+}
+
+export {
+  RUNS_DIR, parseIdsFileName, exportDirs, listIdsFiles, findPreviousExport, readIdsFile, diffIds, writeDiff, sortableTimestamp,
+  formatFileTimestamp, slugifyLabel, buildFileStem,
+};
+export type { IdsFileInfo, DiffSummary };
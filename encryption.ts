@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+/** Начало зашифрованного файла: по нему файл и опознаётся */
+const MAGIC = Buffer.from('BHENC1');
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + SALT_BYTES + IV_BYTES + TAG_BYTES;
+
+/**
+ * Откуда брать ключ: строка или файл с ней (ENCRYPTION_KEY, ENCRYPTION_KEY_FILE)
+ */
+interface EncryptionKeySource {
+  encryptionKey?: string;
+  encryptionKeyFile?: string;
+}
+
+/**
+ * Ошибка шифрования: нет ключа для зашифрованного файла, неверный ключ, нечитаемый файл ключа
+ */
+class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Ключ шифрования: секрет и ключ AES для новых файлов
+ * Соль одна на ключ — scrypt не пересчитывается на каждую запись; IV у каждого файла свой
+ */
+interface EncryptionKey {
+  secret: string;
+  salt: Buffer;
+  key: Buffer;
+}
+
+/** Ключи по соли и секрету: прочитанные файлы и ключи прогонов */
+const derived = new Map<string, Buffer>();
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  const cacheKey = `${salt.toString('hex')}:${secret}`;
+  let key = derived.get(cacheKey);
+  if (!key) {
+    key = scryptSync(secret, salt, 32);
+    derived.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * Секрет из настроек: файл ключа важнее строки
+ * @returns {string | null} null — шифрование не настроено
+ * @throws {EncryptionError} Если файл ключа не читается или пуст
+ */
+function loadEncryptionSecret(source: EncryptionKeySource): string | null {
+  if (source.encryptionKeyFile) {
+    let secret: string;
+    try {
+      secret = fs.readFileSync(source.encryptionKeyFile, 'utf-8').trim();
+    } catch {
+      throw new EncryptionError(`не удалось прочитать файл ключа: ${source.encryptionKeyFile}`);
+    }
+    if (!secret) throw new EncryptionError(`файл ключа пуст: ${source.encryptionKeyFile}`);
+    return secret;
+  }
+  return source.encryptionKey || null;
+}
+
+/**
+ * Ключ для секрета со своей солью
+ */
+function createEncryptionKey(secret: string): EncryptionKey {
+  const salt = randomBytes(SALT_BYTES);
+  return { secret, salt, key: deriveKey(secret, salt) };
+}
+
+/**
+ * Ключ из настроек прогона (ENCRYPTION_KEY, ENCRYPTION_KEY_FILE)
+ * С ключом сессия, чекпоинт и файлы с ID пишутся зашифрованными; читаются любые
+ * @returns {EncryptionKey | null} null — шифрование не настроено
+ * @throws {EncryptionError} Если файл ключа не читается или пуст
+ */
+function resolveEncryptionKey(source: EncryptionKeySource): EncryptionKey | null {
+  const secret = loadEncryptionSecret(source);
+  return secret ? createEncryptionKey(secret) : null;
+}
+
+/**
+ * Зашифрован ли файл (по первым байтам)
+ */
+function isEncrypted(data: Buffer): boolean {
+  return data.length >= HEADER_BYTES && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * AES-256-GCM: MAGIC | соль | IV | тег | шифротекст
+ */
+function encryptBuffer(data: Buffer, key: EncryptionKey): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key.key, iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([MAGIC, key.salt, iv, cipher.getAuthTag(), encrypted]);
+}
+
+/**
+ * Расшифровка; незашифрованные данные возвращаются как есть
+ * @param label - Что расшифровывается (для текста ошибки)
+ * @throws {EncryptionError} Если ключа нет, он не подходит или файл повреждён
+ */
+function decryptBuffer(data: Buffer, key: EncryptionKey | null, label = 'файл'): Buffer {
+  if (!isEncrypted(data)) return data;
+  if (!key) throw new EncryptionError(`${label} зашифрован: задайте ENCRYPTION_KEY или ENCRYPTION_KEY_FILE`);
+
+  let offset = MAGIC.length;
+  const take = (n: number) => data.subarray(offset, (offset += n));
+  const salt = take(SALT_BYTES);
+  const iv = take(IV_BYTES);
+  const tag = take(TAG_BYTES);
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(key.secret, salt), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data.subarray(offset)), decipher.final()]);
+  } catch {
+    throw new EncryptionError(`${label}: неверный ключ или файл повреждён`);
+  }
+}
+
+/**
+ * Запись файла с данными пользователей: зашифрованным, если ключ задан
+ */
+function writeSecureFile(filePath: string, content: string, key: EncryptionKey | null): void {
+  const data = Buffer.from(content, 'utf-8');
+  fs.writeFileSync(filePath, key ? encryptBuffer(data, key) : data);
+}
+
+/**
+ * Чтение файла, записанного writeSecureFile (или обычного)
+ * @throws {EncryptionError} Если файл зашифрован, а ключа нет или он не подходит
+ */
+function readSecureFile(filePath: string, key: EncryptionKey | null): string {
+  return decryptBuffer(fs.readFileSync(filePath), key, filePath).toString('utf-8');
+}
+
+export {
+  EncryptionError, loadEncryptionSecret, createEncryptionKey, resolveEncryptionKey, isEncrypted,
+  encryptBuffer, decryptBuffer, writeSecureFile, readSecureFile,
+};
+export type { EncryptionKeySource, EncryptionKey };
@@ -0,0 +1,167 @@
+import * as path from 'path';
+import type { ContactRecord } from './contacts';
+import { writeSecureFile, type EncryptionKey } from './encryption';
+
+/**
+ * Данные одной выгрузки (сообщество, список или текущая группа)
+ */
+interface ExportContext {
+  /** Контакты выгрузки */
+  contacts: ContactRecord[];
+  /** Подпись выгрузки, например group_Name или list_Одобрен */
+  label: string;
+  /** Папка для файлов */
+  outDir: string;
+  /** Общая часть имён файлов выгрузки: <ts>_<label>_<hash> */
+  fileStem: string;
+  /** Ключ шифрования прогона; null — файлы пишутся как есть */
+  encryption: EncryptionKey | null;
+}
+
+/**
+ * Формат выгрузки
+ */
+interface Exporter {
+  /** Имя формата в OUTPUT_FORMATS */
+  readonly format: string;
+  /**
+   * Запись выгрузки
+   * @returns {Promise<string[]>} Пути созданных файлов
+   */
+  export(ctx: ExportContext): Promise<string[]>;
+}
+
+/**
+ * Настройки файла аудитории VK Ads
+ */
+interface VkAdsOptions {
+  /** Максимальный размер одного файла в байтах; больше — режем на части */
+  maxBytes?: number;
+  /** url — строки вида vk.com/idN, id — только числовой ID */
+  idStyle?: 'url' | 'id';
+}
+
+/** Лимит по умолчанию на размер файла при загрузке аудитории */
+const VK_ADS_DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Экранирование значения для CSV
+ */
+function csvCell(value: string): string {
+  return /[",;\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV с полными записями контактов (UTF-8 с BOM, чтобы Excel не ломал кириллицу)
+ */
+const csvExporter: Exporter = {
+  format: 'csv',
+  async export(ctx) {
+    const header = ['id', 'name', 'profile_url', 'subscribed_at', 'tags', 'lists'];
+    const rows = ctx.contacts.map(c => [
+      c.id,
+      c.name,
+      c.profileUrl,
+      c.subscribedAt,
+      c.tags.join('; '),
+      c.lists.join('; '),
+    ].map(csvCell).join(','));
+
+    const outPath = path.join(ctx.outDir, `bothunter_contacts_${ctx.fileStem}.csv`);
+    writeSecureFile(outPath, '\uFEFF' + [header.join(','), ...rows].join('\n'), ctx.encryption);
+    return [outPath];
+  },
+};
+
+/**
+ * NDJSON: одна запись контакта в строке
+ */
+const ndjsonExporter: Exporter = {
+  format: 'ndjson',
+  async export(ctx) {
+    const lines = ctx.contacts.map(c => JSON.stringify({ ...c, label: ctx.label }));
+    const outPath = path.join(ctx.outDir, `bothunter_contacts_${ctx.fileStem}.ndjson`);
+    writeSecureFile(outPath, lines.join('\n') + (lines.length ? '\n' : ''), ctx.encryption);
+    return [outPath];
+  },
+};
+
+/**
+ * Файл для загрузки аудитории ретаргетинга VK Ads
+ * По одному vk.com/idN (или числовому ID) в строке; при превышении лимита размера
+ * файл режется на части _part1, _part2, ...
+ */
+function createVkAdsExporter(options: VkAdsOptions = {}): Exporter {
+  const maxBytes = options.maxBytes || VK_ADS_DEFAULT_MAX_BYTES;
+  const idStyle = options.idStyle || 'url';
+
+  return {
+    format: 'vkads',
+    async export(ctx) {
+      const lines = Array.from(new Set(ctx.contacts.map(c => c.id)))
+        .map(id => idStyle === 'url' ? `vk.com/id${id}` : id);
+
+      const chunks: string[][] = [];
+      let current: string[] = [];
+      let currentBytes = 0;
+
+      for (const line of lines) {
+        const lineBytes = Buffer.byteLength(line, 'utf-8') + 1;
+        if (current.length > 0 && currentBytes + lineBytes > maxBytes) {
+          chunks.push(current);
+          current = [];
+          currentBytes = 0;
+        }
+        current.push(line);
+        currentBytes += lineBytes;
+      }
+      chunks.push(current);
+
+      return chunks.map((chunk, i) => {
+        const suffix = chunks.length > 1 ? `_part${i + 1}` : '';
+        const outPath = path.join(ctx.outDir, `bothunter_vkads_${ctx.fileStem}${suffix}.txt`);
+        writeSecureFile(outPath, chunk.join('\n'), ctx.encryption);
+        return outPath;
+      });
+    },
+  };
+}
+
+const registry = new Map<string, Exporter>();
+
+/**
+ * Регистрация формата выгрузки (встроенного или своего)
+ */
+function registerExporter(exporter: Exporter): void {
+  registry.set(exporter.format, exporter);
+}
+
+/**
+ * Список зарегистрированных форматов
+ */
+function availableFormats(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Подбор экспортеров по списку форматов из OUTPUT_FORMATS
+ * @throws {Error} Если формат не зарегистрирован
+ */
+function resolveExporters(formats: string[], vkAds: VkAdsOptions = {}): Exporter[] {
+  return formats.map(format => {
+    const key = format.trim().toLowerCase();
+    if (key === 'vkads') return createVkAdsExporter(vkAds);
+    const exporter = registry.get(key);
+    if (!exporter) {
+      throw new Error(`Неизвестный формат выгрузки: ${format} (доступны: ${availableFormats().join(', ')})`);
+    }
+    return exporter;
+  });
+}
+
+registerExporter(csvExporter);
+registerExporter(ndjsonExporter);
+registerExporter(createVkAdsExporter());
+
+export { registerExporter, resolveExporters, availableFormats, createVkAdsExporter, csvCell, VK_ADS_DEFAULT_MAX_BYTES };
+export type { Exporter, ExportContext, VkAdsOptions };
@@ -0,0 +1,330 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Сообщество для записи в историю
+ */
+interface HistoryCommunity {
+  /** ID из change_group_with_channel, если известен */
+  groupId?: string;
+  name: string;
+  url?: string;
+  identifier?: string;
+}
+
+/**
+ * Запись о прогоне
+ */
+interface HistoryRun {
+  id: number;
+  mode: string;
+  started_at: string;
+  finished_at: string | null;
+  status: string;
+}
+
+/**
+ * Снимок одной выгрузки: сообщество целиком или список
+ */
+interface HistorySnapshot {
+  id: number;
+  run_id: number;
+  label: string;
+  community: string;
+  list: string | null;
+  total: number;
+  taken_at: string;
+}
+
+/**
+ * Наблюдение пользователя в сообществе или списке
+ */
+interface MembershipRow {
+  user_id: string;
+  community: string;
+  list: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    mode TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    status TEXT NOT NULL DEFAULT 'running'
+  );
+
+  CREATE TABLE IF NOT EXISTS communities (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key TEXT NOT NULL UNIQUE,
+    group_id TEXT,
+    name TEXT NOT NULL,
+    url TEXT,
+    identifier TEXT,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS lists (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    community_id INTEGER NOT NULL REFERENCES communities(id),
+    name TEXT NOT NULL,
+    href TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    UNIQUE (community_id, href)
+  );
+
+  CREATE TABLE IF NOT EXISTS snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES runs(id),
+    community_id INTEGER NOT NULL REFERENCES communities(id),
+    list_id INTEGER REFERENCES lists(id),
+    label TEXT NOT NULL,
+    total INTEGER NOT NULL,
+    taken_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS snapshot_members (
+    snapshot_id INTEGER NOT NULL REFERENCES snapshots(id),
+    user_id TEXT NOT NULL,
+    PRIMARY KEY (snapshot_id, user_id)
+  );
+
+  -- list_id = 0: контакты сообщества целиком
+  CREATE TABLE IF NOT EXISTS memberships (
+    community_id INTEGER NOT NULL REFERENCES communities(id),
+    list_id INTEGER NOT NULL DEFAULT 0,
+    user_id TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    PRIMARY KEY (community_id, list_id, user_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_memberships_user ON memberships(user_id);
+  CREATE INDEX IF NOT EXISTS idx_snapshots_label ON snapshots(label);
+`;
+
+/**
+ * Локальная история прогонов в SQLite: прогоны, сообщества, списки и наблюдения пользователей
+ */
+class HistoryStore {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath - Путь к файлу базы; папка создаётся при необходимости
+   */
+  constructor(dbPath: string) {
+    const dir = path.dirname(dbPath);
+    if (dir && !fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Регистрация нового прогона
+   * @returns {number} ID прогона
+   */
+  startRun(mode: string): number {
+    const info = this.db
+      .prepare('INSERT INTO runs (mode, started_at) VALUES (?, ?)')
+      .run(mode, new Date().toISOString());
+    return Number(info.lastInsertRowid);
+  }
+
+  /**
+   * Завершение прогона
+   * @param status - partial: прогон дошёл до конца, но часть сообществ или списков со сбоем
+   */
+  finishRun(runId: number, status: 'success' | 'partial' | 'failed'): void {
+    this.db
+      .prepare('UPDATE runs SET finished_at = ?, status = ? WHERE id = ?')
+      .run(new Date().toISOString(), status, runId);
+  }
+
+  /**
+   * Добавление или обновление сообщества
+   * Ключ — ID из change_group_with_channel, иначе идентификатор, иначе название
+   * @returns {number} Внутренний ID сообщества
+   */
+  upsertCommunity(community: HistoryCommunity): number {
+    const now = new Date().toISOString();
+    const key = community.groupId || community.identifier || community.name;
+
+    this.db.prepare(`
+      INSERT INTO communities (key, group_id, name, url, identifier, first_seen_at, last_seen_at)
+      VALUES (@key, @groupId, @name, @url, @identifier, @now, @now)
+      ON CONFLICT(key) DO UPDATE SET
+        group_id = COALESCE(excluded.group_id, communities.group_id),
+        name = excluded.name,
+        url = COALESCE(NULLIF(excluded.url, ''), communities.url),
+        identifier = COALESCE(NULLIF(excluded.identifier, ''), communities.identifier),
+        last_seen_at = excluded.last_seen_at
+    `).run({
+      key,
+      groupId: community.groupId ?? null,
+      name: community.name,
+      url: community.url ?? null,
+      identifier: community.identifier ?? null,
+      now,
+    });
+
+    const row = this.db.prepare('SELECT id FROM communities WHERE key = ?').get(key) as { id: number };
+    return row.id;
+  }
+
+  /**
+   * Добавление или обновление списка сообщества
+   * @returns {number} Внутренний ID списка
+   */
+  upsertList(communityId: number, name: string, href: string): number {
+    const now = new Date().toISOString();
+
+    this.db.prepare(`
+      INSERT INTO lists (community_id, name, href, first_seen_at, last_seen_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(community_id, href) DO UPDATE SET
+        name = excluded.name,
+        last_seen_at = excluded.last_seen_at
+    `).run(communityId, name, href, now, now);
+
+    const row = this.db
+      .prepare('SELECT id FROM lists WHERE community_id = ? AND href = ?')
+      .get(communityId, href) as { id: number };
+    return row.id;
+  }
+
+  /**
+   * Запись снимка выгрузки и наблюдений пользователей одной транзакцией
+   * @param listId - ID списка или null для контактов сообщества целиком
+   * @returns {number} ID снимка
+   */
+  recordSnapshot(runId: number, communityId: number, listId: number | null, label: string, userIds: string[]): number {
+    const now = new Date().toISOString();
+    const unique = Array.from(new Set(userIds));
+
+    const insertSnapshot = this.db.prepare(`
+      INSERT INTO snapshots (run_id, community_id, list_id, label, total, taken_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const insertMember = this.db.prepare('INSERT OR IGNORE INTO snapshot_members (snapshot_id, user_id) VALUES (?, ?)');
+    const upsertMembership = this.db.prepare(`
+      INSERT INTO memberships (community_id, list_id, user_id, first_seen_at, last_seen_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(community_id, list_id, user_id) DO UPDATE SET last_seen_at = excluded.last_seen_at
+    `);
+
+    const write = this.db.transaction(() => {
+      const info = insertSnapshot.run(runId, communityId, listId, label, unique.length, now);
+      const snapshotId = Number(info.lastInsertRowid);
+      for (const userId of unique) {
+        insertMember.run(snapshotId, userId);
+        upsertMembership.run(communityId, listId ?? 0, userId, now, now);
+      }
+      return snapshotId;
+    });
+
+    return write();
+  }
+
+  /**
+   * Последние прогоны
+   */
+  listRuns(limit = 20): HistoryRun[] {
+    return this.db
+      .prepare('SELECT * FROM runs ORDER BY id DESC LIMIT ?')
+      .all(limit) as HistoryRun[];
+  }
+
+  /**
+   * Снимки, опционально по подписи (точное совпадение) или её части
+   */
+  listSnapshots(label?: string, limit = 50): HistorySnapshot[] {
+    return this.db.prepare(`
+      SELECT s.id, s.run_id, s.label, c.name AS community, l.name AS list, s.total, s.taken_at
+      FROM snapshots s
+      JOIN communities c ON c.id = s.community_id
+      LEFT JOIN lists l ON l.id = s.list_id
+      WHERE (@label IS NULL OR s.label = @label OR s.label LIKE '%' || @label || '%')
+      ORDER BY s.id DESC
+      LIMIT @limit
+    `).all({ label: label ?? null, limit }) as HistorySnapshot[];
+  }
+
+  /**
+   * Последний снимок с данной подписью (на момент или до даты, если она задана)
+   */
+  latestSnapshot(label: string, before?: string): HistorySnapshot | null {
+    const row = this.db.prepare(`
+      SELECT s.id, s.run_id, s.label, c.name AS community, l.name AS list, s.total, s.taken_at
+      FROM snapshots s
+      JOIN communities c ON c.id = s.community_id
+      LEFT JOIN lists l ON l.id = s.list_id
+      WHERE s.label = @label AND (@before IS NULL OR s.taken_at <= @before)
+      ORDER BY s.taken_at DESC
+      LIMIT 1
+    `).get({ label, before: before ?? null }) as HistorySnapshot | undefined;
+    return row || null;
+  }
+
+  /**
+   * Снимок по номеру
+   */
+  getSnapshot(snapshotId: number): HistorySnapshot | null {
+    const row = this.db.prepare(`
+      SELECT s.id, s.run_id, s.label, c.name AS community, l.name AS list, s.total, s.taken_at
+      FROM snapshots s
+      JOIN communities c ON c.id = s.community_id
+      LEFT JOIN lists l ON l.id = s.list_id
+      WHERE s.id = ?
+    `).get(snapshotId) as HistorySnapshot | undefined;
+    return row || null;
+  }
+
+  /**
+   * ID пользователей снимка
+   */
+  getSnapshotIds(snapshotId: number): string[] {
+    const rows = this.db
+      .prepare('SELECT user_id FROM snapshot_members WHERE snapshot_id = ? ORDER BY rowid')
+      .all(snapshotId) as { user_id: string }[];
+    return rows.map(r => r.user_id);
+  }
+
+  /**
+   * Где и когда встречался пользователь
+   */
+  userHistory(userId: string): MembershipRow[] {
+    return this.db.prepare(`
+      SELECT m.user_id, c.name AS community, l.name AS list, m.first_seen_at, m.last_seen_at
+      FROM memberships m
+      JOIN communities c ON c.id = m.community_id
+      LEFT JOIN lists l ON l.id = m.list_id
+      WHERE m.user_id = ?
+      ORDER BY m.first_seen_at
+    `).all(userId) as MembershipRow[];
+  }
+
+  /**
+   * Размер сообщества или списка по снимкам
+   */
+  sizeHistory(label: string): { taken_at: string; total: number }[] {
+    return this.db
+      .prepare('SELECT taken_at, total FROM snapshots WHERE label = ? ORDER BY taken_at')
+      .all(label) as { taken_at: string; total: number }[];
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+export { HistoryStore };
+export type { HistoryCommunity, HistoryRun, HistorySnapshot, MembershipRow };
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import { config as loadEnv } from 'dotenv';
+import { HistoryStore } from './history-store';
+import { EncryptionError, resolveEncryptionKey, writeSecureFile, type EncryptionKey } from './encryption';
+
+loadEnv();
+
+const USAGE = `Использование: tsx history.ts <команда> [аргументы]
+
+Команды:
+  runs                              последние прогоны
+  snapshots [подпись]               снимки (фильтр по подписи или её части)
+  export <подпись|#id> [--at ISO] [--out файл]
+                                    ID снимка: последнего по подписи (или на дату --at) или по номеру
+  user <ID пользователя>            где и когда встречался пользователь
+  sizes <подпись>                   изменение размера сообщества или списка
+
+База: HISTORY_DB (по умолчанию bothunter_history.db)
+С ENCRYPTION_KEY или ENCRYPTION_KEY_FILE файл --out пишется зашифрованным; сама база не шифруется`;
+
+/**
+ * Значение флага вида --name value
+ */
+function readFlag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+/**
+ * Ключ шифрования из окружения (ENCRYPTION_KEY, ENCRYPTION_KEY_FILE)
+ */
+function encryptionFromEnv(): EncryptionKey | null {
+  return resolveEncryptionKey({ encryptionKey: process.env.ENCRYPTION_KEY, encryptionKeyFile: process.env.ENCRYPTION_KEY_FILE });
+}
+
+/**
+ * Команда запросов к истории прогонов
+ * @param args - Аргументы после имени скрипта
+ * @param encryption - Ключ для файла export --out; по умолчанию из окружения
+ * @returns {number} Код выхода
+ */
+function runHistoryCommand(args: string[], encryption?: EncryptionKey | null): number {
+  const [command, target] = args;
+  const dbPath = process.env.HISTORY_DB || 'bothunter_history.db';
+
+  if (!command || command === 'help') {
+    console.log(USAGE);
+    return command ? 0 : 1;
+  }
+
+  if (!fs.existsSync(dbPath)) {
+    console.error(`❌ База истории не найдена: ${dbPath}`);
+    return 1;
+  }
+
+  const store = new HistoryStore(dbPath);
+
+  try {
+    switch (command) {
+      case 'runs':
+        console.table(store.listRuns());
+        return 0;
+
+      case 'snapshots':
+        console.table(store.listSnapshots(target));
+        return 0;
+
+      case 'export': {
+        if (!target) {
+          console.error('❌ Укажите подпись снимка или #id');
+          return 1;
+        }
+
+        const snapshot = target.startsWith('#')
+          ? store.getSnapshot(Number(target.slice(1)))
+          : store.latestSnapshot(target, readFlag(args, 'at'));
+
+        if (!snapshot) {
+          console.error(`❌ Снимок не найден: ${target}`);
+          return 1;
+        }
+
+        const ids = store.getSnapshotIds(snapshot.id);
+        const out = readFlag(args, 'out');
+        if (out) {
+          const key = encryption === undefined ? encryptionFromEnv() : encryption;
+          writeSecureFile(out, ids.join('\n'), key);
+          console.log(`💾 Снимок #${snapshot.id} (${snapshot.label}, ${snapshot.taken_at}): ${ids.length} ID → ${out}${key ? ' (зашифрован)' : ''}`);
+        } else {
+          process.stdout.write(ids.join('\n') + '\n');
+        }
+        return 0;
+      }
+
+      case 'user':
+        if (!target) {
+          console.error('❌ Укажите ID пользователя');
+          return 1;
+        }
+        console.table(store.userHistory(target));
+        return 0;
+
+      case 'sizes':
+        if (!target) {
+          console.error('❌ Укажите подпись');
+          return 1;
+        }
+        console.table(store.sizeHistory(target));
+        return 0;
+
+      default:
+        console.error(`❌ Неизвестная команда: ${command}\n`);
+        console.log(USAGE);
+        return 1;
+    }
+  } catch (error) {
+    if (!(error instanceof EncryptionError)) throw error;
+    console.error(`❌ ${error.message}`);
+    return 1;
+  } finally {
+    store.close();
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  process.exit(runHistoryCommand(process.argv.slice(2)));
+}
+
+export { runHistoryCommand };
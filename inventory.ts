@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { csvCell } from './exporters';
+
+/** Фильтр списков по умолчанию — рабочие статусы */
+const DEFAULT_LIST_FILTERS = ['в работе', 'отказ', 'одобрен', 'клик по офферу', 'клик по оффер', 'клик'];
+
+/**
+ * Сообщество со страницы /groups
+ */
+interface InventoryGroup {
+  /** ID из change_group_with_channel */
+  id: string;
+  name: string;
+  /** Попадёт в groups и group-lists с текущими GROUPS_FILTER и GROUPS_EXCLUDE */
+  selected: boolean;
+}
+
+/**
+ * Список со страницы /contacts/lists
+ */
+interface InventoryList {
+  name: string;
+  href: string;
+  /** Число участников, которое показывает сайт; null — не найдено */
+  members: number | null;
+  /** Попадёт в lists с текущим LISTS_FILTER */
+  selected: boolean;
+  /** Ключевые слова LISTS_FILTER, под которые подходит название */
+  filters: string[];
+}
+
+/**
+ * Каталог сообществ и списков без обхода контактов
+ */
+interface Inventory {
+  generatedAt: string;
+  groups: InventoryGroup[];
+  lists: InventoryList[];
+  /** Что находит каждое ключевое слово LISTS_FILTER (или фильтра по умолчанию) */
+  listFilters: { keyword: string; lists: string[] }[];
+  /** Ни одно слово ничего не нашло — lists выгрузит все списки */
+  listFallback: boolean;
+}
+
+/**
+ * Ключевые слова LISTS_FILTER, под которые подходит название списка (без учёта регистра, по вхождению)
+ */
+function matchListFilters(name: string, keywords: string[]): string[] {
+  const low = name.toLowerCase();
+  return keywords.filter(k => low.includes(k.toLowerCase()));
+}
+
+/**
+ * Сборка каталога
+ * @param groups - Все сообщества со страницы /groups
+ * @param selectedGroupIds - Прошедшие фильтры сообществ
+ * @param lists - Все списки текущего сообщества
+ * @param keywords - LISTS_FILTER или DEFAULT_LIST_FILTERS
+ */
+function buildInventory(
+  groups: { id: string; name: string }[],
+  selectedGroupIds: Set<string>,
+  lists: { name: string; href: string; members: number | null }[],
+  keywords: string[],
+): Inventory {
+  const matched = lists.map(l => ({ ...l, filters: matchListFilters(l.name, keywords) }));
+  const listFallback = matched.every(l => l.filters.length === 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    groups: groups.map(g => ({ ...g, selected: selectedGroupIds.has(g.id) })),
+    lists: matched.map(l => ({ ...l, selected: listFallback || l.filters.length > 0 })),
+    listFilters: keywords.map(keyword => ({
+      keyword,
+      lists: matched.filter(l => l.filters.includes(keyword)).map(l => l.name),
+    })),
+    listFallback,
+  };
+}
+
+/**
+ * Запись каталога: bothunter_inventory_<ts>.json и .csv (строка на сообщество или список)
+ * @returns {string[]} Пути файлов
+ */
+function writeInventory(inventory: Inventory, outDir: string, timestamp: string): string[] {
+  const jsonPath = path.join(outDir, `bothunter_inventory_${timestamp}.json`);
+  fs.writeFileSync(jsonPath, JSON.stringify(inventory, null, 2), 'utf-8');
+
+  const header = ['type', 'id', 'name', 'href', 'members', 'selected', 'filters'];
+  const rows = [
+    ...inventory.groups.map(g => ['group', g.id, g.name, '', '', String(g.selected), '']),
+    ...inventory.lists.map(l => [
+      'list', '', l.name, l.href, l.members === null ? '' : String(l.members), String(l.selected), l.filters.join('; '),
+    ]),
+  ].map(row => row.map(csvCell).join(','));
+
+  const csvPath = path.join(outDir, `bothunter_inventory_${timestamp}.csv`);
+  fs.writeFileSync(csvPath, '\uFEFF' + [header.join(','), ...rows].join('\n'), 'utf-8');
+  return [jsonPath, csvPath];
+}
+
+export { DEFAULT_LIST_FILTERS, matchListFilters, buildInventory, writeInventory };
+export type { Inventory, InventoryGroup, InventoryList };
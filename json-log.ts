@@ -0,0 +1,69 @@
+import { format } from 'util';
+import type { EventEmitter } from 'events';
+import type { ParserEvents } from './bothunter-vk-simple';
+
+/** События парсера, которые попадают в JSON-лог */
+const LOGGED_EVENTS: (keyof ParserEvents)[] = ['groupStart', 'listStart', 'page', 'idsFound', 'itemSaved', 'authRequired', 'error'];
+
+const LEVELS = { log: 'info', info: 'info', warn: 'warn', error: 'error' } as const;
+
+/**
+ * Строка консоли в JSON-логе
+ */
+interface JsonLogLine {
+  ts: string;
+  level: (typeof LEVELS)[keyof typeof LEVELS];
+  msg: string;
+}
+
+/**
+ * Событие парсера в JSON-логе: поля события, ошибки — { name, message }
+ */
+type JsonEventLine = { ts: string; event: keyof ParserEvents } & Record<string, unknown>;
+
+/**
+ * Ошибки в JSON превращаются в {}, поэтому пишем имя и текст
+ */
+function replacer(_key: string, value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message } : value;
+}
+
+/**
+ * Вывод консоли в формате JSON Lines: {"ts", "level", "msg"} на каждую строку console.log/info/warn/error
+ * @param out - Куда писать (по умолчанию stdout)
+ * @returns {() => void} Возврат обычного вывода
+ */
+function enableJsonLog(out: NodeJS.WritableStream = process.stdout): () => void {
+  const original = { log: console.log, info: console.info, warn: console.warn, error: console.error };
+
+  for (const method of Object.keys(original) as (keyof typeof original)[]) {
+    console[method] = (...args: unknown[]) => {
+      const msg = format(...args).trim();
+      if (!msg) return;
+      const line: JsonLogLine = { ts: new Date().toISOString(), level: LEVELS[method], msg };
+      out.write(JSON.stringify(line, replacer) + '\n');
+    };
+  }
+
+  return () => Object.assign(console, original);
+}
+
+/**
+ * События парсера в JSON Lines: {"ts", "event", ...данные события}
+ * @returns {() => void} Отписка
+ */
+function logParserEvents(parser: EventEmitter<ParserEvents>, out: NodeJS.WritableStream = process.stdout): () => void {
+  const handlers = LOGGED_EVENTS.map(event => {
+    const handler = (payload: object) => {
+      const line: JsonEventLine = { ts: new Date().toISOString(), event, ...payload };
+      out.write(JSON.stringify(line, replacer) + '\n');
+    };
+    (parser as EventEmitter).on(event, handler);
+    return () => (parser as EventEmitter).off(event, handler);
+  });
+
+  return () => handlers.forEach(off => off());
+}
+
+export { enableJsonLog, logParserEvents };
+export type { JsonLogLine, JsonEventLine };
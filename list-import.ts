@@ -0,0 +1,114 @@
+import { readIdsFile } from './diff';
+import { EncryptionError, type EncryptionKey } from './encryption';
+
+/** Сколько ID отправляется на сайт за раз по умолчанию */
+const DEFAULT_IMPORT_BATCH_SIZE = 100;
+
+/**
+ * Что загрузить и куда (команда import)
+ */
+interface ImportOptions {
+  /** ID без повторов */
+  ids: string[];
+  /** Название списка на /contacts/lists; если такого нет — создаётся */
+  list: string;
+  /** ID или название сообщества со страницы /groups; без него — текущее сообщество */
+  group?: string;
+  batchSize?: number;
+  /** Только показать, что изменится: список не создаётся, ID не отправляются */
+  dryRun?: boolean;
+}
+
+/**
+ * Итог загрузки в список
+ */
+interface ImportResult {
+  list: string;
+  group: { id: string; name: string } | null;
+  dryRun: boolean;
+  /** Списка не было: создан (в dry-run — будет создан) */
+  created: boolean;
+  /** Уникальных ID в файле */
+  total: number;
+  /** Уже в списке; известно только в dry-run — там список выгружается для сверки */
+  alreadyInList: number | null;
+  /** Отправлено или будет отправлено на добавление */
+  toAdd: number;
+  batches: number;
+  /** Принято сайтом */
+  accepted: number;
+  /** Отклонено сайтом: не подписчик сообщества, уже в списке и т.п. */
+  rejected: number;
+  /** ID в отправленных пакетах — с начала файла; при сбое повтор начинается после них */
+  sent: number;
+  /** Сбой пакета: отправка остановлена, принятое до него в accepted и rejected */
+  error: string | null;
+}
+
+/**
+ * Ошибка загрузки: нет файла, сообщества, списка или ответа сайта
+ */
+class ListImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListImportError';
+  }
+}
+
+/**
+ * ID из файла выгрузки: строки с числовым ID или ссылкой vk.com/idN (как в файлах VK Ads)
+ * @param key - Ключ для зашифрованной выгрузки
+ * @returns {{ ids: string[]; invalid: string[] }} ID без повторов и строки, в которых ID нет
+ * @throws {ListImportError} Если файл не читается
+ * @throws {EncryptionError} Если файл зашифрован, а ключа нет или он не подходит
+ */
+function readImportIds(filePath: string, key: EncryptionKey | null = null): { ids: string[]; invalid: string[] } {
+  let lines: string[];
+  try {
+    lines = readIdsFile(filePath, key);
+  } catch (error) {
+    if (error instanceof EncryptionError) throw error;
+    throw new ListImportError(`не удалось прочитать файл: ${filePath}`);
+  }
+
+  const ids = new Set<string>();
+  const invalid: string[] = [];
+  for (const line of lines) {
+    const m = line.match(/^(?:(?:https?:\/\/)?(?:m\.)?vk\.com\/id)?(\d+)$/);
+    if (m) {
+      ids.add(m[1]);
+    } else {
+      invalid.push(line);
+    }
+  }
+  return { ids: Array.from(ids), invalid };
+}
+
+/**
+ * Разбиение ID на пакеты для отправки
+ */
+function chunkIds(ids: string[], size: number): string[][] {
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    batches.push(ids.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Числа принятых и отклонённых из сообщения сайта после добавления
+ * @param acceptedPattern - patterns.importAccepted профиля сайта
+ * @param rejectedPattern - patterns.importRejected; если не нашлось — отклонённых нет
+ * @throws {ListImportError} Если в сообщении нет числа принятых
+ */
+function parseImportMessage(text: string, acceptedPattern: string, rejectedPattern: string): { accepted: number; rejected: number } {
+  const accepted = text.match(new RegExp(acceptedPattern, 'i'));
+  if (!accepted) {
+    throw new ListImportError(`не удалось разобрать ответ сайта: "${text.trim() || '(пусто)'}"`);
+  }
+  const rejected = text.match(new RegExp(rejectedPattern, 'i'));
+  return { accepted: Number(accepted[1]), rejected: rejected ? Number(rejected[1]) : 0 };
+}
+
+export { DEFAULT_IMPORT_BATCH_SIZE, ListImportError, readImportIds, chunkIds, parseImportMessage };
+export type { ImportOptions, ImportResult };
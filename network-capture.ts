@@ -0,0 +1,236 @@
+import type { Page, Response } from 'playwright';
+import { bareContact, mergeContact, type ContactRecord } from './contacts';
+
+/**
+ * Стратегия извлечения ID пользователей:
+ * network — из ответов сервера при загрузке страниц контактов (с откатом на DOM),
+ * dom — регулярками по тексту страницы
+ */
+type IdStrategy = 'network' | 'dom';
+
+/** Ключи JSON, в которых сайт отдаёт ID пользователя ВК */
+const USER_ID_KEYS = new Set(['vk_id', 'user_id', 'vk_user_id', 'uid', 'peer_id', 'from_id']);
+
+/** Ключи, по которым объект можно считать строкой контакта (тогда берём и его "id") */
+const CONTACT_HINT_KEYS = ['first_name', 'last_name', 'photo', 'photo_100', 'screen_name'];
+
+/** Ссылки на профиль и атрибуты с ID в HTML-фрагментах */
+const HTML_ID_PATTERNS = [
+  /vk\.com\/id(\d+)/gi,
+  /data-(?:user|vk|contact)-id=["']?(\d+)/gi,
+];
+
+/** Ключи JSON с полями записи контакта */
+const NAME_KEYS = ['name', 'full_name', 'fullname'];
+const DATE_KEYS = ['subscribed_at', 'subscribe_date', 'created_at', 'date_subscribe', 'date'];
+const TAG_KEYS = ['tags', 'labels'];
+const LIST_KEYS = ['lists', 'list_names'];
+
+/** Запросы, которые относятся к списку контактов (по умолчанию; переопределяется профилем сайта) */
+const CONTACTS_URL_PATTERN = /\/(contacts|followers)/i;
+
+/**
+ * Проверка, что значение похоже на ID пользователя ВК
+ */
+function isVkUserId(value: unknown): value is string | number {
+  if (typeof value === 'number') return Number.isInteger(value) && value > 0;
+  if (typeof value === 'string') return /^\d{1,12}$/.test(value) && value !== '0';
+  return false;
+}
+
+/**
+ * Рекурсивный сбор ID пользователей из JSON-ответа
+ * @param data - Распарсенный JSON
+ * @param out - Множество, куда складываются найденные ID
+ */
+function extractIdsFromJson(data: unknown, out: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(data)) {
+    data.forEach(item => extractIdsFromJson(item, out));
+    return out;
+  }
+
+  if (data && typeof data === 'object') {
+    const obj = data as Record<string, unknown>;
+    const looksLikeContact = CONTACT_HINT_KEYS.some(k => k in obj);
+
+    for (const [key, value] of Object.entries(obj)) {
+      if ((USER_ID_KEYS.has(key) || (key === 'id' && looksLikeContact)) && isVkUserId(value)) {
+        out.add(String(value));
+      } else if (typeof value === 'string') {
+        // JSON часто несёт готовую HTML-разметку строк таблицы
+        extractIdsFromHtml(value, out);
+      } else {
+        extractIdsFromJson(value, out);
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Названия из поля-массива: строки или объекты с name/title
+ */
+function readNames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(v => typeof v === 'string' ? v : (v && typeof v === 'object'
+      ? String((v as Record<string, unknown>).name ?? (v as Record<string, unknown>).title ?? '')
+      : ''))
+    .map(v => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Рекурсивный сбор записей контактов из JSON-ответа
+ * Контактом считается объект с ID пользователя и хотя бы одним полем профиля
+ * @param data - Распарсенный JSON
+ * @param out - Коллекция записей по ID
+ */
+function extractContactsFromJson(data: unknown, out: Map<string, ContactRecord> = new Map()): Map<string, ContactRecord> {
+  if (Array.isArray(data)) {
+    data.forEach(item => extractContactsFromJson(item, out));
+    return out;
+  }
+
+  if (!data || typeof data !== 'object') return out;
+
+  const obj = data as Record<string, unknown>;
+  const looksLikeContact = CONTACT_HINT_KEYS.some(k => k in obj);
+  const idKey = Object.keys(obj).find(k => USER_ID_KEYS.has(k) && isVkUserId(obj[k]))
+    || (looksLikeContact && isVkUserId(obj.id) ? 'id' : undefined);
+
+  if (idKey && looksLikeContact) {
+    const id = String(obj[idKey]);
+    const str = (keys: string[]) => {
+      const key = keys.find(k => typeof obj[k] === 'string' && obj[k]);
+      return key ? String(obj[key]).trim() : '';
+    };
+
+    const firstLast = [obj.first_name, obj.last_name].filter(v => typeof v === 'string' && v).join(' ');
+    const record = bareContact(id);
+    record.name = str(NAME_KEYS) || firstLast;
+    record.subscribedAt = str(DATE_KEYS);
+    if (typeof obj.screen_name === 'string' && obj.screen_name) {
+      record.profileUrl = `https://vk.com/${obj.screen_name}`;
+    }
+    record.tags = TAG_KEYS.flatMap(k => readNames(obj[k]));
+    record.lists = LIST_KEYS.flatMap(k => readNames(obj[k]));
+
+    const existing = out.get(id);
+    out.set(id, existing ? mergeContact(existing, record) : record);
+  }
+
+  for (const value of Object.values(obj)) {
+    if (value && typeof value === 'object') {
+      extractContactsFromJson(value, out);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Сбор ID пользователей из HTML-фрагмента по ссылкам на профили ВК
+ * @param html - Текст ответа
+ * @param out - Множество, куда складываются найденные ID
+ */
+function extractIdsFromHtml(html: string, out: Set<string> = new Set()): Set<string> {
+  for (const pattern of HTML_ID_PATTERNS) {
+    for (const match of html.matchAll(pattern)) {
+      if (match[1]) out.add(match[1]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Данные, собранные из ответов сервера для одной страницы контактов
+ */
+interface CapturedPage {
+  ids: string[];
+  /** Записи контактов, если сервер отдал их в JSON */
+  contacts: ContactRecord[];
+}
+
+/**
+ * Сборщик ID из ответов сервера
+ * Слушает page.on('response') и накапливает ID, пришедшие с момента последнего сброса
+ */
+class ResponseIdCollector {
+  private ids: Set<string> = new Set();
+  private contacts: Map<string, ContactRecord> = new Map();
+  private pending: Set<Promise<void>> = new Set();
+  private responsesSeen = 0;
+  private urlPattern: RegExp;
+
+  /**
+   * @param urlPattern - Какие ответы относятся к списку контактов
+   */
+  constructor(urlPattern: RegExp = CONTACTS_URL_PATTERN) {
+    this.urlPattern = urlPattern;
+  }
+
+  /**
+   * Подписка на ответы страницы
+   */
+  attach(page: Page): void {
+    page.on('response', response => {
+      const task = this.handleResponse(response).finally(() => this.pending.delete(task));
+      this.pending.add(task);
+    });
+  }
+
+  /**
+   * Сброс накопленных ID перед загрузкой новой страницы контактов
+   */
+  reset(): void {
+    this.ids.clear();
+    this.contacts.clear();
+    this.responsesSeen = 0;
+  }
+
+  /**
+   * Забрать данные, накопленные с последнего сброса, и очистить буфер
+   * @returns {Promise<CapturedPage | null>} ID и записи или null, если подходящих ответов не было
+   */
+  async take(): Promise<CapturedPage | null> {
+    await Promise.allSettled(Array.from(this.pending));
+
+    const seen = this.responsesSeen;
+    const captured: CapturedPage = {
+      ids: Array.from(this.ids),
+      contacts: Array.from(this.contacts.values()),
+    };
+    this.reset();
+
+    return seen > 0 && captured.ids.length > 0 ? captured : null;
+  }
+
+  private async handleResponse(response: Response): Promise<void> {
+    const type = response.request().resourceType();
+    if (type !== 'xhr' && type !== 'fetch' && type !== 'document') return;
+    if (!this.urlPattern.test(response.url())) return;
+    if (!response.ok()) return;
+
+    const contentType = (response.headers()['content-type'] || '').toLowerCase();
+
+    try {
+      if (contentType.includes('json')) {
+        const data = await response.json();
+        extractIdsFromJson(data, this.ids);
+        extractContactsFromJson(data, this.contacts);
+      } else if (contentType.includes('html') || contentType.includes('text')) {
+        extractIdsFromHtml(await response.text(), this.ids);
+      } else {
+        return;
+      }
+      this.responsesSeen++;
+    } catch {
+      // тело недоступно (редирект или страница уже закрыта) — пропускаем
+    }
+  }
+}
+
+export { ResponseIdCollector, extractIdsFromJson, extractIdsFromHtml, extractContactsFromJson };
+export type { IdStrategy, CapturedPage };
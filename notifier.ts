@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { withRetry, type RetryPolicy } from './retry';
+import type { ReportItem, Completeness } from './run-report';
+
+/** Пределы Bot API Telegram: размер документа и длина сообщения */
+const TELEGRAM_MAX_FILE_BYTES = 50 * 1024 * 1024;
+const TELEGRAM_MAX_TEXT = 4096;
+
+/**
+ * Одна выгрузка прогона: txt с ID и файлы доп. форматов
+ */
+interface ExportSummary {
+  label: string;
+  ids: number;
+  /** txt-файл с ID */
+  file: string;
+  /** Все файлы выгрузки, включая txt */
+  files: string[];
+  /** Сверка со счётчиком сайта */
+  completeness: Completeness | null;
+}
+
+/**
+ * Содержимое уведомления (тело вебхука)
+ */
+interface RunNotification {
+  /** finished — прогон дошёл до конца (возможно, со сбоями элементов), failed — прерван */
+  event: 'finished' | 'failed';
+  mode: string;
+  startedAt: string;
+  finishedAt: string;
+  durationSec: number;
+  succeeded: number;
+  failed: number;
+  fatalError: string | null;
+  exports: ExportSummary[];
+  failures: Pick<ReportItem, 'kind' | 'key' | 'label' | 'error'>[];
+  reportFile: string | null;
+}
+
+interface NotifierOptions {
+  webhooks: string[];
+  telegram: { token: string; chatId: string; apiUrl: string } | null;
+  /** Прикладывать файлы выгрузок */
+  attachFiles: boolean;
+  retry: RetryPolicy;
+}
+
+/**
+ * Текст сообщения в Telegram
+ */
+function formatTelegramText(n: RunNotification): string {
+  const mark = n.event === 'failed' ? '❌' : n.failed > 0 ? '⚠️' : '✅';
+  const head = [
+    `${mark} BotHunter: ${n.mode} — ${n.event === 'failed' ? 'прогон прерван' : 'готово'} за ${n.durationSec} с`,
+    `Выгружено: ${n.succeeded}, со сбоем: ${n.failed}`,
+    ...(n.fatalError ? [`Ошибка: ${n.fatalError}`] : []),
+  ];
+  const details = [
+    ...n.failures.map(f => `✖ ${f.label}: ${f.error || 'ошибка'}`),
+    ...n.exports.map(e => `• ${e.label}: ${e.ids} ID${e.completeness?.status === 'incomplete' ? ` из ${e.completeness.expected} ⚠️` : ''}`),
+  ];
+
+  // Сотни сообществ в одно сообщение не влезут — хвост сворачиваем
+  let text = head.join('\n');
+  for (let i = 0; i < details.length; i++) {
+    const rest = `\n… и ещё ${details.length - i}`;
+    if (text.length + details[i].length + 1 + rest.length > TELEGRAM_MAX_TEXT) return text + rest;
+    text += `\n${details[i]}`;
+  }
+  return text;
+}
+
+/**
+ * Файл как часть multipart-формы
+ */
+function fileBlob(filePath: string): Blob {
+  return new Blob([fs.readFileSync(filePath)]);
+}
+
+/**
+ * Хост вебхука для журнала (сам адрес может содержать секрет)
+ * @throws {Error} Если адрес не разбирается
+ */
+function webhookHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    throw new Error('Вебхук: некорректный адрес');
+  }
+}
+
+/**
+ * Уведомления о завершении прогона: JSON на вебхуки и сообщение через Telegram Bot API
+ * Сбой доставки не влияет на прогон — только предупреждение в логе
+ */
+class Notifier {
+  private options: NotifierOptions;
+
+  constructor(options: NotifierOptions) {
+    this.options = options;
+  }
+
+  get enabled(): boolean {
+    return this.options.webhooks.length > 0 || this.options.telegram !== null;
+  }
+
+  /**
+   * Отправка уведомления всем получателям
+   * @param files - Файлы для вложения (учитываются только при attachFiles)
+   */
+  async send(notification: RunNotification, files: string[] = []): Promise<void> {
+    const attachments = this.options.attachFiles ? files.filter(f => fs.existsSync(f)) : [];
+
+    for (const url of this.options.webhooks) {
+      await this.deliver(
+        () => `Вебхук ${webhookHost(url)}`,
+        target => withRetry(target, () => this.postWebhook(url, notification, attachments), this.options.retry),
+      );
+    }
+    if (this.options.telegram) {
+      const telegram = this.options.telegram;
+      await this.deliver(() => 'Telegram', () => this.sendTelegram(telegram, notification, attachments));
+    }
+  }
+
+  /**
+   * Доставка одному получателю; название для журнала строится внутри, чтобы и его сбой только предупреждал
+   */
+  private async deliver(describe: () => string, fn: (target: string) => Promise<void>): Promise<void> {
+    try {
+      const target = describe();
+      await fn(target);
+      console.log(`📨 ${target}: уведомление отправлено`);
+    } catch (error) {
+      console.log(`⚠️ ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * JSON в теле; с вложениями — multipart: поле payload с JSON и поля files
+   */
+  private async postWebhook(url: string, notification: RunNotification, attachments: string[]): Promise<void> {
+    let body: string | FormData = JSON.stringify(notification);
+    let headers: Record<string, string> | undefined = { 'content-type': 'application/json' };
+
+    if (attachments.length > 0) {
+      const form = new FormData();
+      form.append('payload', body);
+      attachments.forEach(f => form.append('files', fileBlob(f), path.basename(f)));
+      body = form;
+      headers = undefined;
+    }
+
+    const res = await fetch(url, { method: 'POST', headers, body });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  }
+
+  private async sendTelegram(
+    telegram: NonNullable<NotifierOptions['telegram']>,
+    notification: RunNotification,
+    attachments: string[],
+  ): Promise<void> {
+    // Токен входит в адрес — в ошибки попадает только имя метода
+    // Повторяется каждый вызов отдельно, чтобы сбой вложения не дублировал сообщение
+    const call = (method: string, body: () => FormData | string) => withRetry(`Telegram ${method}`, async () => {
+      const payload = body();
+      const res = await fetch(`${telegram.apiUrl.replace(/\/$/, '')}/bot${telegram.token}/${method}`, {
+        method: 'POST',
+        headers: typeof payload === 'string' ? { 'content-type': 'application/json' } : undefined,
+        body: payload,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    }, this.options.retry);
+
+    await call('sendMessage', () => JSON.stringify({
+      chat_id: telegram.chatId,
+      text: formatTelegramText(notification),
+      disable_web_page_preview: true,
+    }));
+
+    for (const file of attachments) {
+      if (fs.statSync(file).size > TELEGRAM_MAX_FILE_BYTES) {
+        console.log(`⚠️ Telegram: ${path.basename(file)} больше 50 МБ — не отправлен`);
+        continue;
+      }
+      await call('sendDocument', () => {
+        const form = new FormData();
+        form.append('chat_id', telegram.chatId);
+        form.append('document', fileBlob(file), path.basename(file));
+        return form;
+      });
+    }
+  }
+}
+
+export { Notifier, formatTelegramText };
+export type { RunNotification, ExportSummary, NotifierOptions };
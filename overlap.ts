@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { csvCell } from './exporters';
+import { writeSecureFile, type EncryptionKey } from './encryption';
+import { exportDirs, readIdsFile, sortableTimestamp } from './diff';
+import type { ResolvedOperand } from './audience';
+
+/**
+ * Аудитория одного сообщества в отчёте о пересечениях
+ */
+interface OverlapCommunity {
+  name: string;
+  /** Файл выгрузки или снимок истории */
+  source: string;
+  size: number;
+  /** ID, которых нет ни в одном другом сообществе */
+  uniqueIds: string[];
+}
+
+/**
+ * Пересечение пары сообществ
+ */
+interface OverlapPair {
+  a: string;
+  b: string;
+  common: number;
+  /** |A ∩ B| / |A ∪ B|, 0 — если оба пусты */
+  jaccard: number;
+}
+
+/**
+ * Отчёт о пересечении аудиторий сообществ
+ */
+interface OverlapReport {
+  generatedAt: string;
+  communities: OverlapCommunity[];
+  pairs: OverlapPair[];
+  /** Уникальных ID во всех сообществах вместе */
+  reach: number;
+  /** Сколько пользователей состоит ровно в k сообществах */
+  distribution: { communities: number; users: number }[];
+  /** Порог для users */
+  minCommunities: number;
+  /** Пользователи не менее чем в minCommunities сообществах, сначала самые пересекающиеся */
+  users: { id: string; communities: string[] }[];
+}
+
+/**
+ * Ошибка источника отчёта: нет отчёта о прогоне, мало выгрузок
+ */
+class OverlapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OverlapError';
+  }
+}
+
+/**
+ * Выгрузки сообществ из отчёта о прогоне: успешные элементы с txt-файлом
+ * Файлы ищутся рядом с отчётом — папку выгрузок можно переносить целиком
+ * @param reportPath - bothunter_report_<ts>.json
+ * @param key - Ключ для зашифрованных выгрузок
+ * @throws {OverlapError} Если отчёт не читается
+ */
+function operandsFromRunReport(reportPath: string, key: EncryptionKey | null = null): { mode: string; operands: ResolvedOperand[] } {
+  let report: { mode: string; items: { label: string; status: string; file?: string }[] };
+  try {
+    report = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+  } catch {
+    throw new OverlapError(`не удалось прочитать отчёт о прогоне: ${reportPath}`);
+  }
+
+  const operands = report.items
+    .filter(item => item.status === 'success' && item.file)
+    .map(item => {
+      const file = path.join(path.dirname(reportPath), path.basename(item.file!));
+      if (!fs.existsSync(file)) throw new OverlapError(`${item.label}: выгрузка не найдена (${file})`);
+      return { name: item.label, source: path.basename(file), ids: new Set(readIdsFile(file, key)) };
+    });
+  return { mode: report.mode, operands };
+}
+
+/**
+ * Последний отчёт о прогоне в режиме groups (в папке выгрузок или папках прогонов)
+ * @returns {string | null} Путь отчёта или null, если таких нет
+ */
+function latestGroupsReport(outDir: string): string | null {
+  const reports = exportDirs(outDir)
+    .flatMap(dir => fs.readdirSync(dir).map(name => ({ reportPath: path.join(dir, name), ts: /^bothunter_report_(\d{14})\.json$/.exec(name)?.[1] })))
+    .filter((r): r is { reportPath: string; ts: string } => !!r.ts)
+    .sort((a, b) => sortableTimestamp(b.ts).localeCompare(sortableTimestamp(a.ts)));
+
+  for (const { reportPath } of reports) {
+    try {
+      if (JSON.parse(fs.readFileSync(reportPath, 'utf-8')).mode === 'groups') return reportPath;
+    } catch {}
+  }
+  return null;
+}
+
+/**
+ * Расчёт пересечений
+ * @param operands - Аудитории сообществ (подпись, источник, ID)
+ * @param minCommunities - С какого числа сообществ пользователь попадает в users
+ * @throws {OverlapError} Если сообществ меньше двух
+ */
+function buildOverlap(operands: ResolvedOperand[], minCommunities = 2): OverlapReport {
+  if (operands.length < 2) {
+    throw new OverlapError(`для пересечений нужно минимум два сообщества, найдено: ${operands.length}`);
+  }
+
+  const membership = new Map<string, string[]>();
+  for (const o of operands) {
+    for (const id of o.ids) {
+      const names = membership.get(id);
+      if (names) names.push(o.name); else membership.set(id, [o.name]);
+    }
+  }
+
+  const pairs: OverlapPair[] = [];
+  operands.forEach((a, i) => {
+    for (const b of operands.slice(i + 1)) {
+      const [small, large] = a.ids.size <= b.ids.size ? [a.ids, b.ids] : [b.ids, a.ids];
+      let common = 0;
+      for (const id of small) if (large.has(id)) common++;
+      const union = a.ids.size + b.ids.size - common;
+      pairs.push({ a: a.name, b: b.name, common, jaccard: union === 0 ? 0 : Math.round((common / union) * 10000) / 10000 });
+    }
+  });
+
+  const counts = new Map<number, number>();
+  for (const names of membership.values()) counts.set(names.length, (counts.get(names.length) || 0) + 1);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    communities: operands.map(o => ({
+      name: o.name,
+      source: o.source,
+      size: o.ids.size,
+      uniqueIds: Array.from(o.ids).filter(id => membership.get(id)!.length === 1),
+    })),
+    pairs,
+    reach: membership.size,
+    distribution: Array.from(counts, ([communities, users]) => ({ communities, users })).sort((a, b) => a.communities - b.communities),
+    minCommunities,
+    users: Array.from(membership, ([id, communities]) => ({ id, communities }))
+      .filter(u => u.communities.length >= minCommunities)
+      .sort((a, b) => b.communities.length - a.communities.length),
+  };
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const percent = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+/**
+ * HTML-сводка без внешних ресурсов: матрица, уникальные аудитории, охват
+ */
+function renderOverlapHtml(report: OverlapReport): string {
+  const names = report.communities.map(c => c.name);
+  const pair = (a: string, b: string) => report.pairs.find(p => (p.a === a && p.b === b) || (p.a === b && p.b === a))!;
+
+  const matrix = report.communities.map(row => `
+      <tr><th>${escapeHtml(row.name)}</th>${names.map(col => {
+        if (col === row.name) return `<td class="self">${row.size}</td>`;
+        const p = pair(row.name, col);
+        // Насыщенность ячейки — по Jaccard
+        return `<td style="background: rgba(13, 110, 253, ${(p.jaccard * 0.8 + 0.05).toFixed(2)})">${p.common}<small>${percent(p.jaccard)}</small></td>`;
+      }).join('')}</tr>`).join('');
+
+  const communities = report.communities.map(c => `
+      <tr><td>${escapeHtml(c.name)}</td><td>${c.size}</td><td>${c.uniqueIds.length}</td><td>${c.size === 0 ? '—' : percent(c.uniqueIds.length / c.size)}</td><td>${escapeHtml(c.source)}</td></tr>`).join('');
+
+  const distribution = report.distribution.map(d => `
+      <tr><td>${d.communities}</td><td>${d.users}</td><td>${percent(d.users / (report.reach || 1))}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+  <meta charset="utf-8">
+  <title>Пересечение аудиторий</title>
+  <style>
+    body { font: 14px/1.4 system-ui, sans-serif; margin: 24px; color: #212529; }
+    table { border-collapse: collapse; margin-bottom: 24px; }
+    th, td { border: 1px solid #dee2e6; padding: 6px 10px; text-align: right; }
+    th:first-child, td:first-child { text-align: left; }
+    td small { display: block; color: #495057; }
+    td.self { background: #e9ecef; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <h1>Пересечение аудиторий</h1>
+  <p>Сообществ: ${report.communities.length}. Охват без повторов: <b>${report.reach}</b>.
+    В ${report.minCommunities} и более сообществах: <b>${report.users.length}</b>. Создан ${escapeHtml(report.generatedAt)}.</p>
+
+  <h2>Матрица пересечений</h2>
+  <p>Общих ID и коэффициент Жаккара; на диагонали — размер аудитории.</p>
+  <table>
+    <thead><tr><th></th>${names.map(n => `<th>${escapeHtml(n)}</th>`).join('')}</tr></thead>
+    <tbody>${matrix}
+    </tbody>
+  </table>
+
+  <h2>Сообщества</h2>
+  <table>
+    <thead><tr><th>Сообщество</th><th>ID</th><th>Только здесь</th><th>Доля</th><th>Источник</th></tr></thead>
+    <tbody>${communities}
+    </tbody>
+  </table>
+
+  <h2>В скольких сообществах состоят</h2>
+  <table>
+    <thead><tr><th>Сообществ</th><th>Пользователей</th><th>От охвата</th></tr></thead>
+    <tbody>${distribution}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Запись отчёта: bothunter_overlap_<ts>.json (всё, включая ID), .csv (пара сообществ на строку) и .html
+ * @param key - Ключ шифрования всех трёх файлов; null — пишутся как есть
+ * @returns {string[]} Пути файлов
+ */
+function writeOverlap(report: OverlapReport, outDir: string, timestamp: string, key: EncryptionKey | null): string[] {
+  const base = path.join(outDir, `bothunter_overlap_${timestamp}`);
+
+  // Полные списки ID — только в JSON; CSV и HTML с названиями сообществ и размерами аудиторий шифруются вместе с ним
+  writeSecureFile(`${base}.json`, JSON.stringify(report, null, 2), key);
+
+  const sizes = new Map(report.communities.map(c => [c.name, c.size]));
+  const header = ['a', 'b', 'a_size', 'b_size', 'common', 'jaccard'];
+  const rows = report.pairs
+    .map(p => [p.a, p.b, String(sizes.get(p.a)), String(sizes.get(p.b)), String(p.common), String(p.jaccard)])
+    .map(row => row.map(csvCell).join(','));
+  writeSecureFile(`${base}.csv`, '\uFEFF' + [header.join(','), ...rows].join('\n'), key);
+
+  writeSecureFile(`${base}.html`, renderOverlapHtml(report), key);
+  return [`${base}.json`, `${base}.csv`, `${base}.html`];
+}
+
+export { OverlapError, operandsFromRunReport, latestGroupsReport, buildOverlap, renderOverlapHtml, writeOverlap };
+export type { OverlapReport, OverlapCommunity, OverlapPair };
@@ -0,0 +1,34 @@
+/**
+ * Общий ограничитель частоты запросов к сайту
+ * Слоты выдаются по очереди всем страницам и контекстам прогона:
+ * между соседними слотами проходит от intervalMs до intervalMs + jitterMs
+ */
+class RateLimiter {
+  private nextSlot = 0;
+  private intervalMs: number;
+  private jitterMs: number;
+
+  /**
+   * @param intervalMs - Минимальный интервал между запросами (мс)
+   * @param jitterMs - Случайная добавка к интервалу (мс)
+   */
+  constructor(intervalMs: number, jitterMs = 0) {
+    this.intervalMs = Math.max(0, intervalMs);
+    this.jitterMs = Math.max(0, jitterMs);
+  }
+
+  /**
+   * Дождаться своего слота перед запросом
+   */
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs + Math.floor(Math.random() * (this.jitterMs + 1));
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+export { RateLimiter };
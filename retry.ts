@@ -0,0 +1,49 @@
+/**
+ * Политика повторов шагов прогона (переходы, переключение сообщества, пагинация)
+ */
+interface RetryPolicy {
+  /** Сколько раз повторить шаг после первой неудачи */
+  retries: number;
+  /** Пауза перед первым повтором (мс); дальше удваивается */
+  baseDelayMs: number;
+}
+
+/**
+ * Шаг не удался и после всех повторов
+ */
+class RetryError extends Error {
+  readonly attempts: number;
+
+  constructor(action: string, attempts: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message.split('\n')[0] : String(cause);
+    super(`${action}: не удалось за ${attempts} попыт. — ${reason}`, { cause });
+    this.name = 'RetryError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Выполнение шага с повторами и экспоненциальной паузой
+ * @param action - Название шага для логов и ошибки
+ * @param fn - Шаг; получает номер попытки, начиная с 0
+ * @throws {RetryError} Если шаг не удался ни разу
+ */
+async function withRetry<T>(action: string, fn: (attempt: number) => Promise<T>, policy: RetryPolicy): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.retries) {
+        throw new RetryError(action, attempt + 1, error);
+      }
+
+      const delayMs = policy.baseDelayMs * 2 ** attempt;
+      const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      console.log(`   🔁 ${action}: ${reason} — повтор ${attempt + 1}/${policy.retries} через ${delayMs} мс`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+export { withRetry, RetryError };
+export type { RetryPolicy };
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { formatFileTimestamp, slugifyLabel, RUNS_DIR } from './diff';
+import type { ParserConfig } from './bothunter-vk-simple';
+
+/** Указатели на последние выгрузки по подписям: <папка выгрузок>/latest/<подпись>.json */
+const LATEST_DIR = 'latest';
+
+/** Настройки с токенами и адресами, которые в манифест не попадают */
+const SECRET_CONFIG_KEYS: (keyof ParserConfig)[] = ['telegramBotToken', 'notifyWebhooks', 'encryptionKey'];
+
+/**
+ * Откуда выгрузка: сообщество и, для списков, список
+ */
+interface ManifestSource {
+  community: { groupId?: string; name: string; url?: string; identifier?: string } | null;
+  list: { name: string; href: string } | null;
+}
+
+/**
+ * Файл прогона в манифесте
+ */
+interface ManifestFile {
+  /** Путь относительно папки прогона */
+  path: string;
+  bytes: number;
+  sha256: string;
+  /** Подпись выгрузки; null — файл прогона целиком (отчёт, результаты) */
+  label: string | null;
+  /** ID в файле выгрузки; null — не файл с ID */
+  ids: number | null;
+  source: ManifestSource | null;
+}
+
+/**
+ * manifest.json в папке прогона
+ */
+interface RunManifestData {
+  mode: string;
+  startedAt: string;
+  finishedAt: string | null;
+  /** running — прогон ещё идёт или процесс оборвался, не дойдя до finish() */
+  status: 'running' | 'success' | 'partial' | 'failed';
+  /** Настройки прогона без SECRET_CONFIG_KEYS */
+  config: Partial<ParserConfig>;
+  files: ManifestFile[];
+}
+
+/**
+ * latest/<подпись>.json: где лежит последняя выгрузка подписи
+ * Пути относительно папки выгрузок
+ */
+interface LatestPointer {
+  label: string;
+  file: string;
+  ids: number;
+  sha256: string;
+  runDir: string;
+  manifest: string;
+  finishedAt: string;
+}
+
+/**
+ * Настройки без секретов
+ */
+function sanitizeConfig(config: ParserConfig): Partial<ParserConfig> {
+  const copy: Partial<ParserConfig> = { ...config };
+  for (const key of SECRET_CONFIG_KEYS) delete copy[key];
+  return copy;
+}
+
+function sha256File(filePath: string): string {
+  return createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Запись JSON через временный файл, чтобы читатель не увидел половину
+ */
+function writeJsonAtomic(filePath: string, data: unknown): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Папка прогона с манифестом (RUN_DIRS=true)
+ * Все файлы прогона пишутся в <папка выгрузок>/runs/<ts>_<режим>/; manifest.json со статусом running
+ * появляется в начале, в конце он дополняется хешами, а указатели latest/ — выгрузками этого прогона
+ */
+class RunManifest {
+  /** Папка прогона */
+  readonly dir: string;
+  private baseDir: string;
+  private data: RunManifestData;
+  /** Метаданные выгрузок по пути файла */
+  private tagged = new Map<string, Pick<ManifestFile, 'label' | 'ids' | 'source'>>();
+  /** txt-выгрузки по подписи — для latest/ */
+  private idsFiles = new Map<string, string>();
+
+  /**
+   * @param baseDir - Папка выгрузок (рядом с OUTPUT_FILE)
+   */
+  constructor(baseDir: string, mode: string, config: ParserConfig) {
+    this.baseDir = baseDir;
+    const stem = `${formatFileTimestamp()}_${mode}`;
+    let dir = path.join(baseDir, RUNS_DIR, stem);
+    // Два прогона в одну секунду (планировщик, API) не должны писать в одну папку
+    for (let n = 2; fs.existsSync(dir); n++) dir = path.join(baseDir, RUNS_DIR, `${stem}_${n}`);
+    fs.mkdirSync(dir, { recursive: true });
+    this.dir = dir;
+
+    this.data = {
+      mode,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      status: 'running',
+      config: sanitizeConfig(config),
+      files: [],
+    };
+    // Манифест со статусом running сразу: по нему видно, что прогон начался и не закончился
+    writeJsonAtomic(this.manifestPath, this.data);
+  }
+
+  /**
+   * Отметка файлов выгрузки: подпись, число ID и откуда она
+   * @param idsFile - txt с ID; он же становится latest/ для подписи
+   * @param files - Все файлы выгрузки, включая txt
+   */
+  addExport(label: string, ids: number, idsFile: string, files: string[], source: ManifestSource | null): void {
+    for (const file of files) {
+      this.tagged.set(path.resolve(file), { label, ids: file === idsFile ? ids : null, source });
+    }
+    this.idsFiles.set(label, idsFile);
+  }
+
+  /**
+   * Запись manifest.json со всеми файлами папки прогона и обновление latest/
+   * @returns {string} Путь манифеста
+   */
+  finish(status: RunManifestData['status']): string {
+    this.data.finishedAt = new Date().toISOString();
+    this.data.status = status;
+    this.data.files = fs.readdirSync(this.dir, { withFileTypes: true })
+      .filter(entry => entry.isFile() && entry.name !== 'manifest.json' && !entry.name.endsWith('.tmp'))
+      .map(entry => {
+        const filePath = path.join(this.dir, entry.name);
+        const tag = this.tagged.get(path.resolve(filePath));
+        return {
+          path: entry.name,
+          bytes: fs.statSync(filePath).size,
+          sha256: sha256File(filePath),
+          label: tag?.label ?? null,
+          ids: tag?.ids ?? null,
+          source: tag?.source ?? null,
+        };
+      })
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    writeJsonAtomic(this.manifestPath, this.data);
+    this.updateLatest(this.manifestPath);
+    return this.manifestPath;
+  }
+
+  private get manifestPath(): string {
+    return path.join(this.dir, 'manifest.json');
+  }
+
+  /**
+   * latest/<подпись>.json для каждой выгрузки прогона
+   */
+  private updateLatest(manifestPath: string): void {
+    if (this.idsFiles.size === 0) return;
+
+    const latestDir = path.join(this.baseDir, LATEST_DIR);
+    fs.mkdirSync(latestDir, { recursive: true });
+    for (const [label, idsFile] of this.idsFiles) {
+      const entry = this.data.files.find(f => f.path === path.basename(idsFile));
+      if (!entry) continue;
+
+      const pointer: LatestPointer = {
+        label,
+        file: path.relative(this.baseDir, idsFile),
+        ids: entry.ids ?? 0,
+        sha256: entry.sha256,
+        runDir: path.relative(this.baseDir, this.dir),
+        manifest: path.relative(this.baseDir, manifestPath),
+        finishedAt: this.data.finishedAt!,
+      };
+      writeJsonAtomic(latestPointerPath(this.baseDir, label), pointer);
+    }
+  }
+}
+
+/**
+ * Путь указателя latest/ для подписи
+ */
+function latestPointerPath(baseDir: string, label: string): string {
+  return path.join(baseDir, LATEST_DIR, `${slugifyLabel(label, 100)}.json`);
+}
+
+/**
+ * Последняя выгрузка подписи по указателю latest/
+ * @returns {LatestPointer | null} null — указателя нет
+ */
+function readLatestPointer(baseDir: string, label: string): LatestPointer | null {
+  const pointerPath = latestPointerPath(baseDir, label);
+  if (!fs.existsSync(pointerPath)) return null;
+  return JSON.parse(fs.readFileSync(pointerPath, 'utf-8'));
+}
+
+export { RunManifest, LATEST_DIR, sanitizeConfig, latestPointerPath, readLatestPointer };
+export type { RunManifestData, ManifestFile, ManifestSource, LatestPointer };
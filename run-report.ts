@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Сверка собранного со счётчиком сайта
+ */
+interface Completeness {
+  /** complete — собрано не меньше, чем показывает сайт; unknown — счётчик не найден */
+  status: 'complete' | 'incomplete' | 'unknown';
+  /** Счётчик на странице; null — не найден */
+  expected: number | null;
+  /** Уникальных ID собрано */
+  actual: number;
+  /** Обход остановлен MAX_PAGES — недобор ожидаем, перепроверка не запускалась */
+  maxPagesReached: boolean;
+  /** Перепроверено страниц после расхождения */
+  rescannedPages: number;
+}
+
+/**
+ * Итог по одному элементу прогона: сообществу, списку или текущим контактам
+ */
+interface ReportItem {
+  kind: 'contacts' | 'group' | 'list';
+  /** Ключ элемента: id сообщества, href списка */
+  key: string;
+  label: string;
+  status: 'success' | 'failed';
+  /** Обработано страниц пагинации */
+  pages: number;
+  /** Собрано ID */
+  ids: number;
+  /** txt-выгрузка (для успешных) */
+  file?: string;
+  /** Сверка со счётчиком сайта (для успешных) */
+  completeness?: Completeness | null;
+  error?: string;
+}
+
+/**
+ * Содержимое отчёта о прогоне
+ */
+interface RunReportData {
+  mode: string;
+  startedAt: string;
+  finishedAt: string | null;
+  succeeded: number;
+  failed: number;
+  /** Ошибка, прервавшая весь прогон (вход, список сообществ и т.п.) */
+  fatalError: string | null;
+  items: ReportItem[];
+}
+
+/**
+ * Отчёт о прогоне: успехи и сбои по элементам
+ * Пишется в bothunter_report_<ts>.json рядом с выгрузками и печатается в конце прогона
+ */
+class RunReport {
+  private data: RunReportData;
+
+  constructor(mode: string) {
+    this.data = {
+      mode,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      succeeded: 0,
+      failed: 0,
+      fatalError: null,
+      items: [],
+    };
+  }
+
+  /** В прогоне были сбои (элементов или всего прогона) */
+  get hasFailures(): boolean {
+    return this.data.failed > 0 || this.data.fatalError !== null;
+  }
+
+  get items(): ReportItem[] {
+    return this.data.items;
+  }
+
+  success(item: Omit<ReportItem, 'status' | 'error'>): void {
+    this.data.items.push({ ...item, status: 'success' });
+    this.data.succeeded++;
+  }
+
+  failure(item: Omit<ReportItem, 'status' | 'file'>): void {
+    this.data.items.push({ ...item, status: 'failed' });
+    this.data.failed++;
+  }
+
+  fatal(error: unknown): void {
+    this.data.fatalError = error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Завершение отчёта и запись JSON
+   * @param outDir - Папка выгрузок
+   * @param fileStem - Метка времени для имени файла
+   * @returns {string} Путь отчёта
+   */
+  write(outDir: string, fileStem: string): string {
+    this.data.finishedAt = new Date().toISOString();
+    const outPath = path.join(outDir, `bothunter_report_${fileStem}.json`);
+    fs.writeFileSync(outPath, JSON.stringify(this.data, null, 2), 'utf-8');
+    return outPath;
+  }
+
+  /**
+   * Сводка в консоль
+   */
+  print(): void {
+    if (this.data.items.length === 0 && !this.data.fatalError) return;
+
+    console.log(`\n📊 Итог прогона: успешно ${this.data.succeeded}, со сбоем ${this.data.failed}`);
+    for (const item of this.data.items) {
+      const mark = item.status === 'failed' ? '❌' : item.completeness?.status === 'incomplete' ? '⚠️' : '✅';
+      const expected = item.completeness?.status === 'incomplete' ? ` из ${item.completeness.expected}` : '';
+      console.log(`   ${mark} ${item.label}: ${item.ids}${expected} ID, страниц ${item.pages}${item.error ? ` — ${item.error}` : ''}`);
+    }
+    if (this.data.fatalError) {
+      console.log(`   ❌ Прогон прерван: ${this.data.fatalError}`);
+    }
+  }
+
+  toJSON(): RunReportData {
+    return this.data;
+  }
+}
+
+export { RunReport };
+export type { ReportItem, RunReportData, Completeness };
@@ -0,0 +1,306 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ParserConfig } from './bothunter-vk-simple';
+import type { JobRunner } from './api-server';
+import { CronExpression } from './cron';
+import { parseCommandLine, configArgv, OPTIONS } from './cli';
+
+/** Настройки, которые задаёт задание; остальные берутся из .env и флагов планировщика */
+const SCHEDULE_OPTION_KEYS = [
+  'maxPages', 'listFilters', 'groupFilters', 'groupExcludeFilters', 'outputFile', 'outputFormats', 'diff', 'vkAdsMaxBytes', 'vkAdsIdStyle',
+] as const;
+
+/** Сколько последних запусков хранить в истории */
+const MAX_HISTORY = 200;
+
+/** Планировщик просыпается не реже раза в минуту: cron-выражения с точностью до минуты */
+const MAX_SLEEP_MS = 60 * 1000;
+
+/**
+ * Задание из файла заданий
+ */
+interface ScheduledJob {
+  name: string;
+  cron: string;
+  mode: NonNullable<ParserConfig['mode']>;
+  maxPages?: number;
+  listFilters?: string[];
+  groupFilters?: string[];
+  groupExcludeFilters?: string[];
+  outputFile?: string;
+  outputFormats?: string[];
+  diff?: boolean;
+  vkAdsMaxBytes?: number;
+  vkAdsIdStyle?: 'url' | 'id';
+}
+
+/**
+ * Запуск задания: skipped — время подошло, пока шёл другой прогон
+ */
+interface ScheduleRun {
+  job: string;
+  scheduledAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  status: 'succeeded' | 'partial' | 'failed' | 'skipped';
+  /** Выгруженных элементов (сообществ, списков) */
+  succeeded?: number;
+  /** Пропущенных после сбоя элементов */
+  failed?: number;
+  error?: string;
+}
+
+/**
+ * Состояние планировщика на диске: ближайшие запуски и история
+ */
+interface SchedulerState {
+  nextRuns: Record<string, string | null>;
+  runs: ScheduleRun[];
+}
+
+/**
+ * Задание с разобранным расписанием и готовой конфигурацией прогона
+ */
+interface PlannedJob {
+  job: ScheduledJob;
+  cron: CronExpression;
+  config: ParserConfig;
+  nextRunAt: Date | null;
+}
+
+interface JobSchedulerOptions {
+  jobsFile: string;
+  /** Флаги планировщика: задание получает их, затем свои настройки */
+  baseArgv: string[];
+  env: NodeJS.ProcessEnv;
+  createRunner: (config: ParserConfig) => JobRunner;
+}
+
+/**
+ * Чтение и проверка файла заданий
+ * @throws {Error} Если файла нет или задание некорректно (с именем задания в тексте)
+ */
+function loadScheduledJobs(jobsFile: string): ScheduledJob[] {
+  if (!fs.existsSync(jobsFile)) {
+    throw new Error(`Файл заданий не найден: ${jobsFile} (пример — jobs.example.json)`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(jobsFile, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Файл заданий ${jobsFile} не является корректным JSON: ${(e as Error).message}`);
+  }
+
+  const jobs = (parsed as { jobs?: unknown })?.jobs;
+  if (!Array.isArray(jobs)) {
+    throw new Error(`Файл заданий ${jobsFile}: ожидается { "jobs": [...] }`);
+  }
+
+  const modes = OPTIONS.find(o => o.key === 'mode')!.values!;
+  const names = new Set<string>();
+
+  return jobs.map((raw, i) => {
+    const job = raw as Record<string, unknown>;
+    const label = typeof job?.name === 'string' && job.name ? job.name : `#${i + 1}`;
+    const fail = (reason: string): never => {
+      throw new Error(`Задание ${label} в ${jobsFile}: ${reason}`);
+    };
+
+    if (typeof job?.name !== 'string' || !job.name) fail('не указано name');
+    if (names.has(label)) fail('имя повторяется');
+    names.add(label);
+    if (typeof job.cron !== 'string') fail('не указано cron');
+    if (!modes.includes(job.mode as string)) fail(`mode: ожидается одно из ${modes.join(', ')}`);
+
+    const unknown = Object.keys(job).filter(k => !['name', 'cron', 'mode'].includes(k) && !(SCHEDULE_OPTION_KEYS as readonly string[]).includes(k));
+    if (unknown.length > 0) fail(`неизвестные поля: ${unknown.join(', ')}`);
+
+    return job as unknown as ScheduledJob;
+  });
+}
+
+/**
+ * Планировщик: запускает задания по cron строго по одному на общей сессии браузера
+ * Если время задания подошло, пока идёт другой прогон, запуск пропускается и попадает в историю
+ */
+class JobScheduler {
+  private options: JobSchedulerOptions;
+  private planned: PlannedJob[];
+  private stateFile: string;
+  private state: SchedulerState;
+  private running: { runner: JobRunner | null; done: Promise<void> } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stopping = false;
+
+  /**
+   * @throws {Error} Если файл заданий или настройки задания некорректны
+   */
+  constructor(options: JobSchedulerOptions) {
+    this.options = options;
+    this.stateFile = options.jobsFile.replace(/(\.json)?$/, '.state.json');
+    this.state = this.loadState();
+
+    this.planned = loadScheduledJobs(options.jobsFile).map(job => {
+      let cron: CronExpression;
+      let config: ParserConfig;
+      try {
+        cron = new CronExpression(job.cron);
+        const overrides = Object.fromEntries(SCHEDULE_OPTION_KEYS.map(key => [key, job[key]]));
+        config = parseCommandLine([job.mode, ...options.baseArgv, ...configArgv(overrides)], options.env).config;
+      } catch (e) {
+        throw new Error(`Задание ${job.name} в ${options.jobsFile}: ${(e as Error).message}`);
+      }
+      // Войти через ВК по расписанию некому — истёкшая сессия роняет задание
+      return { job, cron, config: { ...config, headless: true }, nextRunAt: null };
+    });
+  }
+
+  /**
+   * Задания с ближайшим и последним запуском
+   */
+  plan(): { name: string; cron: string; mode: string; nextRunAt: string | null; lastRun: ScheduleRun | null }[] {
+    return this.planned.map(p => ({
+      name: p.job.name,
+      cron: p.cron.source,
+      mode: p.job.mode,
+      nextRunAt: (p.nextRunAt || p.cron.next(new Date()))?.toISOString() || null,
+      lastRun: [...this.state.runs].reverse().find(r => r.job === p.job.name) || null,
+    }));
+  }
+
+  /**
+   * История запусков, новые в конце
+   */
+  history(): ScheduleRun[] {
+    return this.state.runs;
+  }
+
+  /**
+   * Запуск по расписанию до stop(); пропущенное, пока планировщик не работал, не догоняется
+   */
+  start(now = new Date()): void {
+    for (const p of this.planned) {
+      p.nextRunAt = p.cron.next(now);
+      console.log(`⏰ ${p.job.name} (${p.cron.source}, ${p.job.mode}): следующий запуск ${p.nextRunAt?.toLocaleString('ru-RU') || 'никогда'}`);
+    }
+    this.saveState();
+    this.schedule();
+  }
+
+  /**
+   * Остановка: новые запуски не начинаются, текущий прогон отменяется после текущей страницы
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.running) {
+      this.running.runner?.cancel();
+      await this.running.done;
+    }
+  }
+
+  /**
+   * Обработка наступивших запусков
+   * Задания, чьё время подошло одновременно, выполняются друг за другом;
+   * подошедшие во время уже идущего прогона пропускаются
+   * @returns {Promise<void>} Завершается, когда выполнены все запущенные этим вызовом задания
+   */
+  async tick(now = new Date()): Promise<void> {
+    const due = this.planned.filter(p => p.nextRunAt && p.nextRunAt <= now);
+    if (due.length === 0) return;
+
+    const occurrences = due.map(p => ({ planned: p, scheduledAt: p.nextRunAt! }));
+    due.forEach(p => (p.nextRunAt = p.cron.next(now)));
+
+    if (this.running) {
+      for (const { planned, scheduledAt } of occurrences) {
+        console.log(`⏭️  ${planned.job.name}: пропуск — ещё идёт предыдущий прогон`);
+        this.record({ job: planned.job.name, scheduledAt: scheduledAt.toISOString(), startedAt: null, finishedAt: null, status: 'skipped' });
+      }
+      this.saveState();
+      return;
+    }
+
+    let finish!: () => void;
+    this.running = { runner: null, done: new Promise<void>(resolve => (finish = resolve)) };
+    this.saveState();
+
+    try {
+      for (const { planned, scheduledAt } of occurrences) {
+        if (this.stopping) break;
+        await this.runJob(planned, scheduledAt);
+      }
+    } finally {
+      this.running = null;
+      finish();
+    }
+  }
+
+  private async runJob(planned: PlannedJob, scheduledAt: Date): Promise<void> {
+    const run: ScheduleRun = {
+      job: planned.job.name,
+      scheduledAt: scheduledAt.toISOString(),
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      status: 'failed',
+    };
+    console.log(`\n▶️  Задание ${planned.job.name} (${planned.job.mode})`);
+
+    try {
+      // Ошибка настроек аккаунта при создании парсера — сбой этого запуска, а не планировщика
+      const runner = this.options.createRunner(planned.config);
+      this.running!.runner = runner;
+      const report = await runner.parse();
+      const data = report.toJSON();
+      run.status = report.hasFailures ? 'partial' : 'succeeded';
+      run.succeeded = data.succeeded;
+      run.failed = data.failed;
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+
+    run.finishedAt = new Date().toISOString();
+    console.log(`${run.status === 'succeeded' ? '✅' : run.status === 'partial' ? '⚠️' : '❌'} Задание ${planned.job.name}: ${run.status}${run.error ? ` — ${run.error}` : ''}`);
+    this.record(run);
+    this.saveState();
+  }
+
+  /**
+   * Таймер до ближайшего запуска (не дольше минуты)
+   */
+  private schedule(): void {
+    const next = Math.min(...this.planned.map(p => p.nextRunAt?.getTime() ?? Infinity));
+    const delay = Math.max(0, Math.min(next - Date.now(), MAX_SLEEP_MS));
+
+    this.timer = setTimeout(() => {
+      this.tick().catch(error => console.error('❌ Планировщик:', error));
+      this.schedule();
+    }, delay);
+  }
+
+  private record(run: ScheduleRun): void {
+    this.state.runs.push(run);
+    this.state.runs = this.state.runs.slice(-MAX_HISTORY);
+  }
+
+  private loadState(): SchedulerState {
+    if (!fs.existsSync(this.stateFile)) return { nextRuns: {}, runs: [] };
+    try {
+      return JSON.parse(fs.readFileSync(this.stateFile, 'utf-8')) as SchedulerState;
+    } catch {
+      console.log(`⚠️ Состояние планировщика ${this.stateFile} повреждено — начинаем заново`);
+      return { nextRuns: {}, runs: [] };
+    }
+  }
+
+  private saveState(): void {
+    this.state.nextRuns = Object.fromEntries(this.planned.map(p => [p.job.name, p.nextRunAt?.toISOString() || null]));
+    fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+    fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2), 'utf-8');
+  }
+}
+
+export { JobScheduler, loadScheduledJobs };
+export type { ScheduledJob, ScheduleRun, SchedulerState };
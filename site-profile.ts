@@ -0,0 +1,275 @@
+import * as fs from 'fs';
+
+/**
+ * Профиль разметки сайта: адреса страниц, CSS-селекторы и регулярки по onclick/тексту
+ * Когда TargetHunter меняет вёрстку, правится профиль (или его переопределение), а не код
+ */
+interface SiteProfile {
+  /** Версия профиля — меняется вместе с вёрсткой сайта */
+  version: string;
+  /** Пути страниц относительно baseUrl */
+  pages: {
+    home: string;
+    contacts: string;
+    groups: string;
+    lists: string;
+  };
+  selectors: {
+    /** Главная: сообщество и признаки авторизации */
+    home: {
+      communityName: string;
+      communityVkLink: string;
+      userMenu: string;
+      logoutLink: string;
+      /** Кнопки с этим текстом тоже считаются выходом */
+      logoutText: string;
+      vkLoginButton: string;
+    };
+    /** Страница контактов и открытый список */
+    contacts: {
+      nextPage: string;
+      pagination: string;
+      profileLink: string;
+      /** Строка контакта — ближайший такой предок ссылки на профиль */
+      row: string;
+      /** Внутри строки */
+      rowName: string;
+      rowLists: string;
+      rowTags: string;
+      /** Элементы, в тексте которых ищутся ID при разборе DOM */
+      idContainers: string;
+      /** Счётчик контактов списка или сообщества */
+      total: string;
+    };
+    /** Список сообществ /groups */
+    groups: {
+      switchAnchor: string;
+      /** Внутри switchAnchor */
+      switchName: string;
+      /** Кнопки переключения; к каждой добавляется [onclick*="<id>"] */
+      switchButtons: string[];
+      /** Путь к функции переключения в window, если кнопка не нашлась */
+      switchFunction: string;
+    };
+    /** Списки /contacts/lists */
+    lists: {
+      listAnchor: string;
+      /** Внутри listAnchor */
+      listName: string;
+      /** Внутри listAnchor: число участников (разбирается по patterns.contactsTotal) */
+      listCount: string;
+      /** Глобальная функция SPA-навигации */
+      navFunction: string;
+      /** Создание списка на /contacts/lists: поле названия и кнопка */
+      createName: string;
+      createSubmit: string;
+      /** Добавление контактов на странице списка: поле для ID, кнопка и сообщение с итогом */
+      importIds: string;
+      importSubmit: string;
+      importResult: string;
+    };
+  };
+  /** Регулярные выражения (исходный текст, без слешей) */
+  patterns: {
+    communityIdentifier: string;
+    groupSwitchOnclick: string;
+    listNavOnclick: string;
+    profileId: string;
+    subscribedAt: string;
+    /** Регулярки для поиска ID в тексте при разборе DOM */
+    textIds: string[];
+    /** URL ответов сервера, относящихся к списку контактов */
+    contactsResponseUrl: string;
+    /** Признак страницы входа в URL */
+    loginUrl: string;
+    /** Число в тексте счётчика контактов (первая группа; пробелы-разделители разрядов допустимы); по умолчанию последнее — «Показано 20 из 1 204» даёт 1204 */
+    contactsTotal: string;
+    /** Число принятых и отклонённых ID в сообщении после добавления в список (первая группа, без учёта регистра) */
+    importAccepted: string;
+    importRejected: string;
+  };
+}
+
+/**
+ * Профиль по умолчанию — вёрстка bot.targethunter.ru на момент версии
+ */
+const DEFAULT_SITE_PROFILE: SiteProfile = {
+  version: '2025.11',
+  pages: {
+    home: '/',
+    contacts: '/contacts',
+    groups: '/groups',
+    lists: '/contacts/lists',
+  },
+  selectors: {
+    home: {
+      communityName: 'a.dark-link',
+      communityVkLink: 'a.dark-link[href*="vk.com"]',
+      userMenu: '[class*="user"]',
+      logoutLink: 'a[href*="logout"]',
+      logoutText: 'Выход',
+      vkLoginButton: 'button:has-text("ВКонтакте"), a:has-text("ВКонтакте"), [href*="vk.com/authorize"]',
+    },
+    contacts: {
+      nextPage: '#followers-list-pagination .btn.btn-primary.pagination-btn:not([disabled]):not(.me-1), #followers-pagination .btn.btn-primary.pagination-btn:not([disabled]):not(.me-1)',
+      pagination: '#followers-list-pagination, #followers-pagination',
+      profileLink: 'a[href*="vk.com/id"]',
+      row: 'tr, li, .list-group-item, .card, [class*="contact"], [class*="follower"]',
+      rowName: 'h5, h6, strong, b',
+      rowLists: 'a[onclick*="/contacts/lists/"], a[href*="/contacts/lists/"], [class*="list-badge"]',
+      rowTags: '.badge, [class*="tag"]',
+      idContainers: '[class*="user"], [class*="contact"], [class*="member"]',
+      total: '#followers-list-total, #followers-total, [class*="total"]',
+    },
+    groups: {
+      switchAnchor: 'a[onclick*="change_group_with_channel"]',
+      switchName: 'div div div div',
+      switchButtons: ['a.btn.btn-light', 'a.width-adaptive', 'a.d-flex'],
+      switchFunction: 'smm.change_group_with_channel',
+    },
+    lists: {
+      listAnchor: 'a.link-dark-primary[onclick*="/contacts/lists/"]',
+      listName: 'h5',
+      listCount: 'span, small, [class*="count"]',
+      navFunction: 'nav',
+      createName: 'input[name="list_name"]',
+      createSubmit: '#list-create-form [type="submit"]',
+      importIds: 'textarea[name="ids"]',
+      importSubmit: '#list-import-form [type="submit"]',
+      importResult: '#list-import-result, .alert',
+    },
+  },
+  patterns: {
+    communityIdentifier: 'ID:\\s*(\\d+)|Идентификатор:\\s*(\\d+)',
+    groupSwitchOnclick: "change_group_with_channel\\('([^']+)'",
+    listNavOnclick: "nav\\('([^']+)'\\)",
+    profileId: 'vk\\.com\\/id(\\d+)',
+    subscribedAt: '\\d{2}\\.\\d{2}\\.\\d{4}(?:,?\\s+\\d{2}:\\d{2}(?::\\d{2})?)?',
+    textIds: ['ID\\s*[:\\s]*(\\d+)', 'ID(\\d+)', '@id(\\d+)'],
+    contactsResponseUrl: '\\/(contacts|followers)',
+    loginUrl: 'login',
+    contactsTotal: '(\\d[\\d\\s\\u00a0]*)\\D*$',
+    importAccepted: '(?:добавлено|принято)\\D*(\\d+)',
+    importRejected: '(?:отклонено|ошиб\\S*)\\D*(\\d+)',
+  },
+};
+
+/**
+ * Рекурсивное наложение переопределения на профиль (массивы заменяются целиком)
+ */
+function mergeProfile<T>(base: T, override: unknown): T {
+  if (!override || typeof override !== 'object' || Array.isArray(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(override as Record<string, unknown>)) {
+    const current = result[key];
+    result[key] = current && typeof current === 'object' && !Array.isArray(current)
+      ? mergeProfile(current, value)
+      : value;
+  }
+  return result as T;
+}
+
+/**
+ * Загрузка профиля сайта
+ * @param overridePath - JSON-файл с частичным переопределением профиля по умолчанию
+ * @throws {Error} Если файл не найден или не является корректным JSON
+ */
+function loadSiteProfile(overridePath?: string): SiteProfile {
+  if (!overridePath) return DEFAULT_SITE_PROFILE;
+
+  if (!fs.existsSync(overridePath)) {
+    throw new Error(`Профиль сайта не найден: ${overridePath}`);
+  }
+
+  let override: unknown;
+  try {
+    override = JSON.parse(fs.readFileSync(overridePath, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Профиль сайта ${overridePath} не является корректным JSON: ${(e as Error).message}`);
+  }
+
+  const profile = mergeProfile(DEFAULT_SITE_PROFILE, override);
+
+  // Ловим опечатки в регулярках сразу, а не посреди многочасового прогона
+  const regexes = [
+    ...Object.entries(profile.patterns).filter(([, v]) => typeof v === 'string'),
+    ...profile.patterns.textIds.map((v, i) => [`textIds[${i}]`, v]),
+  ] as [string, string][];
+  for (const [name, source] of regexes) {
+    try {
+      new RegExp(source);
+    } catch (e) {
+      throw new Error(`Профиль сайта: некорректная регулярка patterns.${name}: ${(e as Error).message}`);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Проверка селектора или регулярки командой doctor
+ */
+interface DoctorCheck {
+  page: keyof SiteProfile['pages'];
+  /** Имя в профиле, например selectors.groups.switchAnchor */
+  name: string;
+  kind: 'selector' | 'pattern';
+  /** CSS-селектор (для pattern — где брать текст; пусто — весь текст страницы) */
+  selector: string;
+  /** Для вложенных селекторов: внутри каких элементов искать */
+  within?: string;
+  /** Для pattern: атрибут, по которому проверяется регулярка (иначе текст) */
+  attribute?: string;
+  pattern?: string;
+  /** Пустой результат допустим (например, кнопка входа у авторизованного пользователя) */
+  optional?: boolean;
+}
+
+/**
+ * Перечень проверок doctor по профилю
+ */
+function buildDoctorChecks(profile: SiteProfile): DoctorCheck[] {
+  const s = profile.selectors;
+  const p = profile.patterns;
+
+  return [
+    { page: 'home', name: 'selectors.home.communityName', kind: 'selector', selector: s.home.communityName },
+    { page: 'home', name: 'selectors.home.communityVkLink', kind: 'selector', selector: s.home.communityVkLink },
+    { page: 'home', name: 'selectors.home.userMenu', kind: 'selector', selector: s.home.userMenu, optional: true },
+    { page: 'home', name: 'selectors.home.logoutLink', kind: 'selector', selector: s.home.logoutLink, optional: true },
+    { page: 'home', name: 'patterns.communityIdentifier', kind: 'pattern', selector: '', pattern: p.communityIdentifier },
+
+    { page: 'contacts', name: 'selectors.contacts.pagination', kind: 'selector', selector: s.contacts.pagination },
+    { page: 'contacts', name: 'selectors.contacts.nextPage', kind: 'selector', selector: s.contacts.nextPage, optional: true },
+    { page: 'contacts', name: 'selectors.contacts.profileLink', kind: 'selector', selector: s.contacts.profileLink },
+    { page: 'contacts', name: 'selectors.contacts.row', kind: 'selector', selector: s.contacts.row },
+    { page: 'contacts', name: 'selectors.contacts.rowName', kind: 'selector', selector: s.contacts.rowName, within: s.contacts.row, optional: true },
+    { page: 'contacts', name: 'selectors.contacts.rowLists', kind: 'selector', selector: s.contacts.rowLists, within: s.contacts.row, optional: true },
+    { page: 'contacts', name: 'selectors.contacts.rowTags', kind: 'selector', selector: s.contacts.rowTags, within: s.contacts.row, optional: true },
+    { page: 'contacts', name: 'selectors.contacts.idContainers', kind: 'selector', selector: s.contacts.idContainers, optional: true },
+    { page: 'contacts', name: 'patterns.profileId', kind: 'pattern', selector: s.contacts.profileLink, attribute: 'href', pattern: p.profileId },
+    { page: 'contacts', name: 'patterns.subscribedAt', kind: 'pattern', selector: '', pattern: p.subscribedAt, optional: true },
+    { page: 'contacts', name: 'selectors.contacts.total', kind: 'selector', selector: s.contacts.total, optional: true },
+    { page: 'contacts', name: 'patterns.contactsTotal', kind: 'pattern', selector: s.contacts.total, pattern: p.contactsTotal, optional: true },
+
+    { page: 'groups', name: 'selectors.groups.switchAnchor', kind: 'selector', selector: s.groups.switchAnchor },
+    { page: 'groups', name: 'selectors.groups.switchName', kind: 'selector', selector: s.groups.switchName, within: s.groups.switchAnchor, optional: true },
+    ...s.groups.switchButtons.map((button, i): DoctorCheck => ({
+      page: 'groups', name: `selectors.groups.switchButtons[${i}]`, kind: 'selector', selector: button, optional: true,
+    })),
+    { page: 'groups', name: 'patterns.groupSwitchOnclick', kind: 'pattern', selector: s.groups.switchAnchor, attribute: 'onclick', pattern: p.groupSwitchOnclick },
+
+    { page: 'lists', name: 'selectors.lists.listAnchor', kind: 'selector', selector: s.lists.listAnchor },
+    { page: 'lists', name: 'selectors.lists.listName', kind: 'selector', selector: s.lists.listName, within: s.lists.listAnchor, optional: true },
+    { page: 'lists', name: 'selectors.lists.listCount', kind: 'selector', selector: s.lists.listCount, within: s.lists.listAnchor, optional: true },
+    { page: 'lists', name: 'selectors.lists.createName', kind: 'selector', selector: s.lists.createName, optional: true },
+    { page: 'lists', name: 'selectors.lists.createSubmit', kind: 'selector', selector: s.lists.createSubmit, optional: true },
+    { page: 'lists', name: 'patterns.listNavOnclick', kind: 'pattern', selector: s.lists.listAnchor, attribute: 'onclick', pattern: p.listNavOnclick },
+  ];
+}
+
+export { DEFAULT_SITE_PROFILE, loadSiteProfile, mergeProfile, buildDoctorChecks };
+export type { SiteProfile, DoctorCheck };
@@ -0,0 +1,55 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountProfiles } from '../accounts';
+import { parseCommandLine, CliUsageError } from '../cli';
+
+let root: string;
+
+before(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-accounts-'));
+  fs.mkdirSync(path.join(root, 'agency1', 'session'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'agency1', 'session', 'state.json'), '{}');
+  fs.writeFileSync(path.join(root, 'agency1', 'account.env'), 'MAX_PAGES=5\nLISTS_FILTER=одобрен,отказ\n');
+  fs.mkdirSync(path.join(root, 'agency2'));
+});
+
+after(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+test('профили перечисляются с отметкой о сохранённой сессии', () => {
+  const accounts = new AccountProfiles(root).list();
+  assert.deepEqual(accounts.map(a => a.name), ['agency1', 'agency2']);
+  assert.ok(accounts[0].sessionSavedAt);
+  assert.equal(accounts[1].sessionSavedAt, null);
+  assert.deepEqual(accounts[0].settings, { MAX_PAGES: '5', LISTS_FILTER: 'одобрен,отказ' });
+});
+
+test('--account подставляет пути профиля и настройки account.env', () => {
+  const { config } = parseCommandLine(['lists', '--account', 'agency1', '--accounts-dir', root], { SESSION_PATH: './browser-session', MAX_PAGES: '100' });
+
+  assert.equal(config.account, 'agency1');
+  assert.equal(config.sessionPath, path.join(root, 'agency1', 'session'));
+  assert.equal(config.outputFile, path.join(root, 'agency1', 'output', 'bothunter_results.json'));
+  assert.equal(config.maxPages, 5);
+  assert.deepEqual(config.listFilters, ['одобрен', 'отказ']);
+});
+
+test('флаги перекрывают настройки аккаунта', () => {
+  const { config } = parseCommandLine(['--account=agency1', '--max-pages', '2'], { ACCOUNTS_DIR: root });
+  assert.equal(config.maxPages, 2);
+});
+
+test('некорректное имя аккаунта отклоняется', () => {
+  assert.throws(() => parseCommandLine(['--account', '../etc'], {}), CliUsageError);
+});
+
+test('удаление профиля стирает его папку', () => {
+  const profiles = new AccountProfiles(root);
+  assert.equal(profiles.remove('agency2'), true);
+  assert.equal(profiles.remove('agency2'), false);
+  assert.deepEqual(profiles.list().map(a => a.name), ['agency1']);
+});
@@ -0,0 +1,170 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobQueue, ApiServer, type JobRunner, type ScrapeJob } from '../api-server';
+import { RunReport } from '../run-report';
+import type { ParserConfig, ParseProgress } from '../bothunter-vk-simple';
+
+/**
+ * Подмена парсера: прогон ждёт release() или cancel() и пишет файл в папку задания
+ */
+class FakeRunner implements JobRunner {
+  readonly config: ParserConfig;
+  private progress: ParseProgress;
+  private finish!: (cancelled: boolean) => void;
+  private done = new Promise<boolean>(resolve => (this.finish = resolve));
+
+  constructor(config: ParserConfig) {
+    this.config = config;
+    this.progress = { mode: config.mode || null, total: 2, done: 0, active: [] };
+  }
+
+  async parse(): Promise<RunReport> {
+    this.progress.active = [{ kind: 'group', key: '1', label: 'group_Первое', page: 3 }];
+    const cancelled = await this.done;
+    if (cancelled) throw new Error('Прогон отменён');
+
+    const file = path.join(path.dirname(this.config.outputFile!), 'bothunter_ids_group_Первое.txt');
+    fs.writeFileSync(file, '1\n2\n', 'utf-8');
+    const report = new RunReport(this.config.mode || 'contacts');
+    report.success({ kind: 'group', key: '1', label: 'group_Первое', pages: 1, ids: 2, file });
+    this.progress = { ...this.progress, done: 2, active: [] };
+    return report;
+  }
+
+  cancel(): void {
+    this.finish(true);
+  }
+
+  release(): void {
+    this.finish(false);
+  }
+
+  getProgress(): ParseProgress {
+    return this.progress;
+  }
+}
+
+/**
+ * Ожидание условия с опросом (очередь запускает задания асинхронно)
+ */
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.ok(check(), 'условие не выполнилось');
+}
+
+describe('HTTP API очереди прогонов', () => {
+  let dir: string;
+  let server: ApiServer;
+  let base: string;
+  const runners: FakeRunner[] = [];
+
+  const api = async (method: string, route: string, body?: unknown) => {
+    const res = await fetch(`${base}${route}`, {
+      method,
+      headers: body === undefined ? undefined : { 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  const waitForStatus = async (id: string, status: ScrapeJob['status']) => {
+    let job = (await api('GET', `/jobs/${id}`)).body as ScrapeJob;
+    for (let i = 0; i < 100 && job.status !== status; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      job = (await api('GET', `/jobs/${id}`)).body as ScrapeJob;
+    }
+    assert.equal(job.status, status);
+  };
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-api-'));
+    const queue = new JobQueue({
+      baseArgv: ['--history-db='],
+      env: { OUTPUT_FILE: path.join(dir, 'bothunter_results.json') },
+      createRunner: config => {
+        // Как парсер с SITE_PROFILE из account.env, указывающим на несуществующий файл
+        if (config.maxPages === 13) throw new Error('не удалось прочитать профиль сайта');
+        const runner = new FakeRunner(config);
+        runners.push(runner);
+        return runner;
+      },
+    });
+    server = new ApiServer(queue);
+    base = await server.listen(0);
+  });
+
+  after(async () => {
+    runners.forEach(r => r.cancel());
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('задания выполняются по одному и отдают прогресс и файлы', async () => {
+    const first = (await api('POST', '/jobs', { mode: 'groups', maxPages: 2 })).body as ScrapeJob;
+    const second = (await api('POST', '/jobs', { mode: 'lists', listFilters: ['одобрен'] })).body as ScrapeJob;
+
+    await waitFor(() => runners.length === 1);
+    assert.equal(runners[0].config.mode, 'groups');
+    assert.equal(runners[0].config.maxPages, 2);
+    assert.equal(runners[0].config.headless, true);
+    assert.equal(path.dirname(runners[0].config.outputFile!), path.join(dir, 'jobs', first.id));
+
+    const running = (await api('GET', `/jobs/${first.id}`)).body as ScrapeJob;
+    assert.equal(running.status, 'running');
+    assert.equal(running.progress!.active[0].page, 3);
+    assert.equal(((await api('GET', `/jobs/${second.id}`)).body as ScrapeJob).status, 'queued');
+
+    runners[0].release();
+    await waitFor(() => runners.length === 2);
+    assert.deepEqual(runners[1].config.listFilters, ['одобрен']);
+
+    const finished = (await api('GET', `/jobs/${first.id}`)).body as ScrapeJob;
+    assert.equal(finished.status, 'succeeded');
+    assert.equal(finished.report!.succeeded, 1);
+
+    const files = (await api('GET', `/jobs/${first.id}/files`)).body as { name: string }[];
+    assert.deepEqual(files.map(f => f.name), ['bothunter_ids_group_Первое.txt']);
+    const download = await fetch(`${base}/jobs/${first.id}/files/${encodeURIComponent(files[0].name)}`);
+    assert.equal(await download.text(), '1\n2\n');
+
+    runners[1].release();
+    await waitForStatus(second.id, 'succeeded');
+  });
+
+  test('отмена снимает ожидающее задание и останавливает выполняющееся', async () => {
+    const running = (await api('POST', '/jobs', { mode: 'contacts' })).body as ScrapeJob;
+    const queued = (await api('POST', '/jobs', { mode: 'contacts' })).body as ScrapeJob;
+    await waitFor(() => runners.length === 3);
+
+    assert.equal(((await api('POST', `/jobs/${queued.id}/cancel`)).body as ScrapeJob).status, 'cancelled');
+    await api('POST', `/jobs/${running.id}/cancel`);
+    await waitForStatus(running.id, 'cancelled');
+    assert.equal(runners.length, 3, 'снятое задание не должно запускаться');
+  });
+
+  test('ошибка создания парсера проваливает задание, а очередь идёт дальше', async () => {
+    const broken = (await api('POST', '/jobs', { mode: 'groups', maxPages: 13 })).body as ScrapeJob;
+    const next = (await api('POST', '/jobs', { mode: 'contacts' })).body as ScrapeJob;
+
+    await waitForStatus(broken.id, 'failed');
+    assert.match(((await api('GET', `/jobs/${broken.id}`)).body as ScrapeJob).error || '', /профиль сайта/);
+    await waitFor(() => runners.length === 4);
+    runners[3].release();
+    await waitForStatus(next.id, 'succeeded');
+  });
+
+  test('некорректные параметры, чужие задания и файлы вне папки задания отклоняются', async () => {
+    assert.equal((await api('POST', '/jobs', { mode: 'export' })).status, 400);
+    assert.equal((await api('POST', '/jobs', { mode: 'groups', headless: false })).status, 400);
+    assert.equal((await api('POST', '/jobs', { mode: 'groups', outputFormats: ['pdf'] })).status, 400);
+    assert.equal((await api('GET', '/jobs/нет-такого')).status, 404);
+
+    const [job] = (await api('GET', '/jobs')).body as ScrapeJob[];
+    assert.equal((await api('GET', `/jobs/${job.id}/files/${encodeURIComponent('../bothunter_results.json')}`)).status, 404);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryStore } from '../history-store';
+import { slugifyLabel } from '../diff';
+import {
+  AudienceSources, AudienceError, parseAudienceExpression, audienceOperands, evaluateAudience,
+} from '../audience';
+
+/**
+ * Выгрузка в формате writeIdsFile
+ */
+function writeExport(dir: string, ts: string, slug: string, ids: string[]): void {
+  fs.writeFileSync(path.join(dir, `bothunter_ids_${ts}_${slug}_abc123.txt`), ids.join('\n'), 'utf-8');
+}
+
+describe('Аудитории из выгрузок', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-audience-'));
+    writeExport(dir, '01012026100000', 'list_Клик_по_офферу', ['1', '2']);
+    writeExport(dir, '02012026100000', 'list_Клик_по_офферу', ['1', '2', '3', '4']);
+    writeExport(dir, '02012026100000', 'list_Одобрен', ['2', '5']);
+    writeExport(dir, '02012026100000', 'group_A-1', ['1', '3', '5']);
+
+    const store = new HistoryStore(path.join(dir, 'history.db'));
+    const runId = store.startRun('groups');
+    const communityId = store.upsertCommunity({ name: 'B' });
+    store.recordSnapshot(runId, communityId, null, 'group_B', ['3', '4', '9']);
+    store.close();
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('& выполняется раньше |, + и -, минус внутри подписи — часть подписи', () => {
+    const tree = parseAudienceExpression('group_A-1 | a - b & "list с пробелом" + (c - d)');
+    assert.deepEqual(audienceOperands(tree), ['group_A-1', 'a', 'b', 'list с пробелом', 'c', 'd']);
+
+    const sets = new Map([
+      ['group_A-1', new Set(['1'])], ['a', new Set(['2', '3'])], ['b', new Set(['3'])],
+      ['list с пробелом', new Set(['3', '4'])], ['c', new Set(['7', '8'])], ['d', new Set(['8'])],
+    ]);
+    assert.deepEqual([...evaluateAudience(tree, sets)].sort(), ['1', '2', '7']);
+
+    assert.throws(() => parseAudienceExpression('a b'), AudienceError);
+    assert.throws(() => parseAudienceExpression('(a | b'), /скобки/);
+    assert.throws(() => parseAudienceExpression('a &'), /обрывается/);
+  });
+
+  test('подпись берёт последнюю выгрузку, по началу подписи или снимок истории', () => {
+    const sources = new AudienceSources({ outDir: dir, historyDb: path.join(dir, 'history.db') });
+    try {
+      assert.equal(sources.resolve('list_Клик по офферу').ids.size, 4);
+      assert.equal(sources.resolve('list_Клик').ids.size, 4);
+      assert.equal(sources.resolve('group_B').ids.size, 3);
+      assert.match(sources.resolve('group_B').source, /история/);
+      assert.throws(() => sources.resolve('list_'), /нескольким выгрузкам/);
+      assert.throws(() => sources.resolve('group_C'), /нет выгрузки/);
+
+      const tree = parseAudienceExpression('list_Клик - list_Одобрен & group_A-1 | group_B');
+      const operands = new Map(audienceOperands(tree).map(name => [name, sources.resolve(name).ids]));
+      assert.deepEqual([...evaluateAudience(tree, operands)].sort(), ['1', '2', '3', '4', '9']);
+    } finally {
+      sources.close();
+    }
+  });
+
+  test('--at выбирает выгрузку на дату', () => {
+    const sources = new AudienceSources({ outDir: dir, at: new Date(2026, 0, 1, 12).toISOString() });
+    try {
+      assert.deepEqual([...sources.resolve('list_Клик').ids], ['1', '2']);
+      assert.throws(() => sources.resolve('list_Одобрен'), AudienceError);
+    } finally {
+      sources.close();
+    }
+  });
+
+  test('длинные подписи с общим началом получают разные слаги и не путаются', () => {
+    const north = 'group_Региональное сообщество любителей рыбалки Север';
+    const south = 'group_Региональное сообщество любителей рыбалки Юг';
+    assert.notEqual(slugifyLabel(north), slugifyLabel(south));
+    assert.ok(slugifyLabel(north).length <= 40);
+
+    writeExport(dir, '03012026100000', slugifyLabel(north), ['7']);
+    writeExport(dir, '03012026100000', slugifyLabel(south), ['8', '9']);
+    const sources = new AudienceSources({ outDir: dir });
+    try {
+      assert.deepEqual([...sources.resolve(north).ids], ['7']);
+      assert.deepEqual([...sources.resolve(south).ids], ['8', '9']);
+    } finally {
+      sources.close();
+    }
+  });
+});
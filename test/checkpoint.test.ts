@@ -0,0 +1,58 @@
+import { describe, test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RunCheckpoint } from '../checkpoint';
+import { bareContact } from '../contacts';
+import { createEncryptionKey, isEncrypted } from '../encryption';
+
+describe('Чекпоинт прогона', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-checkpoint-'));
+  let n = 0;
+  const sessionDir = () => path.join(root, `session${++n}`);
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('параллельные элементы сохраняют прогресс независимо', () => {
+    const dir = sessionDir();
+    const checkpoint = new RunCheckpoint(dir, 'groups', null);
+    checkpoint.savePage('A', 'group_A', 1, ['1', '2'], [bareContact('1'), bareContact('2')]);
+    checkpoint.savePage('B', 'group_B', 1, ['10']);
+    checkpoint.savePage('A', 'group_A', 2, ['3'], [bareContact('3')]);
+    checkpoint.savePage('C', 'group_C', 1, ['20']);
+    checkpoint.markCompleted('C');
+
+    const resumed = new RunCheckpoint(dir, 'groups', null);
+    assert.ok(resumed.load());
+    assert.ok(resumed.isCompleted('C'));
+    assert.equal(resumed.getProgress('C'), null);
+    assert.deepEqual(resumed.getProgress('A')?.userIds, ['1', '2', '3']);
+    assert.equal(resumed.getProgress('A')?.lastPage, 2);
+    assert.deepEqual(resumed.getProgress('A')?.contacts?.map(c => c.id), ['1', '2', '3']);
+    assert.deepEqual(resumed.getProgress('B')?.userIds, ['10']);
+  });
+
+  test('страница дописывается в журнал, не переписывая собранное; с ключом строки зашифрованы', () => {
+    const dir = sessionDir();
+    const key = createEncryptionKey('секрет');
+    const checkpoint = new RunCheckpoint(dir, 'lists', key);
+    checkpoint.savePage('/contacts/lists/1/a', 'list_A', 1, ['1']);
+    checkpoint.savePage('/contacts/lists/1/a', 'list_A', 2, ['2']);
+
+    const [journal] = fs.readdirSync(path.join(dir, 'checkpoint-pages'));
+    const lines = fs.readFileSync(path.join(dir, 'checkpoint-pages', journal), 'utf-8').trim().split('\n');
+    assert.equal(lines.length, 2);
+    assert.ok(lines.every(line => isEncrypted(Buffer.from(line, 'base64'))));
+    assert.ok(isEncrypted(fs.readFileSync(path.join(dir, 'checkpoint.json'))));
+
+    const resumed = new RunCheckpoint(dir, 'lists', key);
+    assert.ok(resumed.load());
+    assert.deepEqual(resumed.getProgress('/contacts/lists/1/a')?.userIds, ['1', '2']);
+
+    resumed.clear();
+    assert.ok(!fs.existsSync(path.join(dir, 'checkpoint-pages')));
+  });
+});
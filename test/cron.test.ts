@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CronExpression, CronParseError } from '../cron';
+
+/**
+ * Местное время без секунд: cron считается по часам машины
+ */
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) => new Date(y, mo - 1, d, h, mi);
+
+test('CronExpression.next находит ближайшую подходящую минуту', () => {
+  assert.deepEqual(new CronExpression('*/15 * * * *').next(at(2025, 11, 1, 10, 7)), at(2025, 11, 1, 10, 15));
+  assert.deepEqual(new CronExpression('0 3 * * *').next(at(2025, 11, 1, 3, 0)), at(2025, 11, 2, 3, 0));
+  assert.deepEqual(new CronExpression('15 9-21/6 * * *').next(at(2025, 11, 1, 16, 0)), at(2025, 11, 1, 21, 15));
+  assert.deepEqual(new CronExpression('@monthly').next(at(2025, 11, 15)), at(2025, 12, 1));
+});
+
+test('CronExpression: день недели 7 — воскресенье, день месяца и день недели объединяются', () => {
+  // 1 ноября 2025 — суббота
+  assert.deepEqual(new CronExpression('0 12 * * 7').next(at(2025, 11, 1)), at(2025, 11, 2, 12));
+  assert.deepEqual(new CronExpression('0 12 10 * 1').next(at(2025, 11, 1)), at(2025, 11, 3, 12));
+  assert.deepEqual(new CronExpression('0 12 10 * 1-5').next(at(2025, 11, 8, 13)), at(2025, 11, 10, 12));
+});
+
+test('CronExpression отклоняет некорректные выражения', () => {
+  for (const expr of ['* * * *', '60 * * * *', '* 5-2 * * *', '*/0 * * * *', 'a * * * *']) {
+    assert.throws(() => new CronExpression(expr), CronParseError, expr);
+  }
+  assert.equal(new CronExpression('0 0 31 2 *').next(at(2025, 1, 1)), null);
+});
@@ -0,0 +1,63 @@
+import { describe, test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  EncryptionError, loadEncryptionSecret, createEncryptionKey, resolveEncryptionKey, isEncrypted, writeSecureFile, readSecureFile,
+} from '../encryption';
+import { readIdsFile } from '../diff';
+import { resolveExporters } from '../exporters';
+import { bareContact } from '../contacts';
+
+describe('Шифрование сессии и выгрузок', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-encryption-'));
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('зашифрованный файл опознаётся и читается с ключом; без ключа и с чужим — ошибка', () => {
+    const file = path.join(dir, 'bothunter_ids_01012026100000_group_A_abc123.txt');
+    writeSecureFile(file, '1\n2\n3', createEncryptionKey('секрет'));
+
+    const raw = fs.readFileSync(file);
+    assert.ok(isEncrypted(raw));
+    assert.ok(!raw.includes('1\n2'));
+    // Ключ с другой солью из того же секрета читает файл: соль берётся из заголовка
+    assert.deepEqual(readIdsFile(file, createEncryptionKey('секрет')), ['1', '2', '3']);
+
+    assert.throws(() => readIdsFile(file), /зашифрован: задайте ENCRYPTION_KEY/);
+    assert.throws(() => readSecureFile(file, createEncryptionKey('другой')), /неверный ключ/);
+  });
+
+  test('без ключа файлы пишутся как раньше, с ключом обычные файлы тоже читаются', () => {
+    const file = path.join(dir, 'plain.txt');
+    writeSecureFile(file, '42', null);
+    assert.equal(fs.readFileSync(file, 'utf-8'), '42');
+    assert.equal(readSecureFile(file, createEncryptionKey('секрет')), '42');
+  });
+
+  test('файл ключа важнее строки; пустой или отсутствующий файл — ошибка', () => {
+    const keyFile = path.join(dir, 'key');
+    fs.writeFileSync(keyFile, 'из файла\n');
+    assert.equal(loadEncryptionSecret({ encryptionKey: 'строка', encryptionKeyFile: keyFile }), 'из файла');
+    assert.equal(loadEncryptionSecret({ encryptionKey: 'строка' }), 'строка');
+    assert.equal(loadEncryptionSecret({}), null);
+    assert.equal(resolveEncryptionKey({}), null);
+    assert.equal(resolveEncryptionKey({ encryptionKeyFile: keyFile })?.secret, 'из файла');
+
+    fs.writeFileSync(keyFile, ' \n');
+    assert.throws(() => loadEncryptionSecret({ encryptionKeyFile: keyFile }), EncryptionError);
+    assert.throws(() => loadEncryptionSecret({ encryptionKeyFile: path.join(dir, 'missing') }), EncryptionError);
+  });
+
+  test('файлы форматов выгрузки шифруются ключом выгрузки', async () => {
+    const key = createEncryptionKey('секрет');
+    const [csv] = resolveExporters(['csv']);
+    const [csvPath] = await csv.export({ contacts: [bareContact('101')], label: 'group_A', outDir: dir, fileStem: 'stem', encryption: key });
+
+    assert.ok(isEncrypted(fs.readFileSync(csvPath)));
+    assert.ok(readSecureFile(csvPath, key).includes('vk.com/id101'));
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createTestParser, hasChromium } from './harness/parser';
+
+/** HAR, записанные с настоящего сайта командой npm run fixtures:record (в git не попадают) */
+const RECORDED_DIR = path.join(path.dirname(new URL(import.meta.url).pathname), 'fixtures', 'recorded');
+
+/** Имя файла — режим прогона: groups.har, lists.har, contacts.har */
+const MODES = ['contacts', 'groups', 'lists'] as const;
+
+const recordings = fs.existsSync(RECORDED_DIR)
+  ? fs.readdirSync(RECORDED_DIR).filter(name => MODES.some(m => name === `${m}.har`))
+  : [];
+
+const skip = !hasChromium()
+  ? 'Chromium не установлен (npm run install:playwright)'
+  : recordings.length === 0 ? `нет записей в ${RECORDED_DIR}` : false;
+
+describe('воспроизведение записей bot.targethunter.ru', { skip }, () => {
+  for (const name of recordings) {
+    const mode = path.basename(name, '.har') as typeof MODES[number];
+
+    test(`режим ${mode} из ${name}`, async () => {
+      const t = createTestParser({ mode, replayHar: path.join(RECORDED_DIR, name), maxPages: 2 });
+      try {
+        await t.parser.parse();
+        const exported = t.outputFiles('bothunter_ids_');
+        assert.ok(exported.length > 0, 'нет ни одной выгрузки');
+        for (const file of exported) {
+          assert.match(fs.readFileSync(file, 'utf-8'), /^\d+(\n\d+)*$/, `пустая или битая выгрузка ${file}`);
+        }
+      } finally {
+        t.cleanup();
+      }
+    });
+  }
+});
@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+
+/**
+ * Контакт в фикстуре сайта
+ */
+interface FixtureContact {
+  id: string;
+  name: string;
+  subscribedAt: string;
+  tags: string[];
+  /** Названия списков, в которых состоит контакт */
+  lists: string[];
+}
+
+/**
+ * Список контактов сообщества
+ */
+interface FixtureList {
+  id: string;
+  name: string;
+  /** ID контактов сообщества */
+  members: string[];
+}
+
+/**
+ * Сообщество в фикстуре сайта
+ */
+interface FixtureGroup {
+  /** ID из change_group_with_channel */
+  id: string;
+  name: string;
+  url: string;
+  identifier: string;
+  contacts: FixtureContact[];
+  lists: FixtureList[];
+}
+
+/**
+ * Данные фикстуры: сообщества и размер страницы пагинации
+ */
+interface FixtureData {
+  pageSize: number;
+  groups: FixtureGroup[];
+}
+
+/**
+ * Запущенный локальный двойник bot.targethunter.ru
+ */
+interface FixtureSite {
+  url: string;
+  data: FixtureData;
+  /** Последнее выбранное сообщество */
+  currentGroup(): FixtureGroup;
+  /** Журнал переключений сообществ */
+  switches: string[];
+  /** Журнал запросов: метод и путь */
+  requests: string[];
+  /** Сообщества, у которых /contacts обрывает соединение (имитация сбоя) */
+  broken: Set<string>;
+  /** Номера страниц /contacts/page, которые один раз отдаются без последней строки (имитация недогрузки) */
+  shortPages: Set<number>;
+  /** Номера запросов /api/lists/import (с 1), на которые сайт отвечает ошибкой */
+  brokenImports: Set<number>;
+  /**
+   * Завершить сессию после запроса, подходящего под условие (метод, путь и query: 'POST /api/switch?id=2');
+   * дальше все страницы и запросы перенаправляются на /login
+   */
+  expireSessionAfter(match: (request: string) => boolean): void;
+  /** Счётчик над таблицей в виде «Показано N из M» (число строк первой страницы и всего) вместо «Всего: M» */
+  showShownOfTotal(): void;
+  /** Вернуть выбор сообщества к первому, списки — к исходным (после import) и очистить журналы */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Где хранится выбор сообщества: account — общий для всех клиентов (как на настоящем сайте),
+ * context — в куке, у каждого контекста браузера свой
+ */
+type SwitchScope = 'account' | 'context';
+
+const DEFAULT_FIXTURE = path.join(path.dirname(new URL(import.meta.url).pathname), '..', 'fixtures', 'site.json');
+
+/**
+ * Загрузка данных фикстуры
+ */
+function loadFixture(filePath = DEFAULT_FIXTURE): FixtureData {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FixtureData;
+}
+
+function escapeHtml(v: string): string {
+  return v.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Шапка страницы с признаками авторизации (меню пользователя и выход)
+ */
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body>
+  <header><span class="user-menu">Оператор</span> <a href="/logout">Выход</a></header>
+  <main>
+${body}
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * Строки таблицы контактов в разметке сайта
+ */
+function renderRows(group: FixtureGroup, contacts: FixtureContact[]): string {
+  return contacts.map(c => {
+    const tags = c.tags.map(t => `<span class="badge bg-secondary">${escapeHtml(t)}</span>`).join('');
+    const lists = c.lists
+      .map(name => group.lists.find(l => l.name === name))
+      .filter((l): l is FixtureList => !!l)
+      .map(l => `<a href="/contacts/lists/1/${l.id}">${escapeHtml(l.name)}</a>`)
+      .join(' ');
+    return `<tr><td><a href="https://vk.com/id${c.id}">${escapeHtml(c.name)}</a></td>`
+      + `<td>${c.subscribedAt}</td><td>${tags}</td><td>${lists}</td></tr>`;
+  }).join('\n');
+}
+
+/**
+ * Страница контактов: первая страница в HTML, следующие — через fetch JSON, как на сайте
+ * @param source - Источник строк для /contacts/page: group или list:<id>
+ * @param shownOfTotal - Счётчик «Показано N из M» вместо «Всего: M»
+ */
+function renderContactsPage(group: FixtureGroup, contacts: FixtureContact[], pageSize: number, source: string, title: string, shownOfTotal = false): string {
+  const first = contacts.slice(0, pageSize);
+  const hasNext = contacts.length > pageSize;
+  const total = contacts.length.toLocaleString('ru-RU');
+
+  return layout(title, `
+    <h3>${escapeHtml(title)}</h3>
+    <div id="followers-list-total">${shownOfTotal ? `Показано ${first.length} из ${total}` : `Всего: ${total}`}</div>${source.startsWith('list:') ? `
+    <form id="list-import-form">
+      <textarea name="ids"></textarea>
+      <button type="submit" class="btn btn-primary">Добавить в список</button>
+    </form>
+    <div id="list-import-result"></div>` : ''}
+    <table class="table"><tbody id="contacts-rows">
+${renderRows(group, first)}
+    </tbody></table>
+    <div id="followers-list-pagination">
+      <button class="btn btn-primary pagination-btn me-1" disabled>&lsaquo;</button>
+      <button class="btn btn-primary pagination-btn" id="next-page"${hasNext ? '' : ' disabled'}>&rsaquo;</button>
+    </div>
+    <script>
+      var importForm = document.getElementById('list-import-form');
+      if (importForm) importForm.addEventListener('submit', function (e) {
+        e.preventDefault();
+        fetch('/api/lists/import?list=${encodeURIComponent(source.slice(5))}', { method: 'POST', body: importForm.ids.value })
+          .then(function (r) { return r.json(); })
+          .then(function (data) {
+            document.getElementById('list-import-result').textContent = 'Добавлено: ' + data.added + ', отклонено: ' + data.rejected;
+          });
+      });
+      var currentPage = 1;
+      document.getElementById('next-page').addEventListener('click', function () {
+        var button = this;
+        currentPage++;
+        fetch('/contacts/page?source=${encodeURIComponent(source)}&n=' + currentPage)
+          .then(function (r) { return r.json(); })
+          .then(function (data) {
+            document.getElementById('contacts-rows').innerHTML = data.html;
+            if (!data.has_next) button.setAttribute('disabled', '');
+          });
+      });
+    </script>`);
+}
+
+/**
+ * Запуск локального сайта, повторяющего вёрстку bot.targethunter.ru (профиль 2025.11)
+ * @param data - Данные фикстуры; по умолчанию test/fixtures/site.json
+ * @param switchScope - Где хранится выбор сообщества (по умолчанию общий для аккаунта)
+ */
+async function startFixtureSite(data: FixtureData = loadFixture(), switchScope: SwitchScope = 'account'): Promise<FixtureSite> {
+  let current = data.groups[0];
+  const switches: string[] = [];
+  const requests: string[] = [];
+  const broken = new Set<string>();
+  const shortPages = new Set<number>();
+  const brokenImports = new Set<number>();
+  let importRequests = 0;
+  const initialLists = data.groups.map(g => JSON.stringify(g.lists));
+  let createdLists = 0;
+  let expireAfter: ((request: string) => boolean) | null = null;
+  let expired = false;
+  let shownOfTotal = false;
+
+  const findList = (id: string) => {
+    for (const group of data.groups) {
+      const list = group.lists.find(l => l.id === id);
+      if (list) return { group, list };
+    }
+    return null;
+  };
+
+  const listContacts = (group: FixtureGroup, list: FixtureList) =>
+    list.members
+      .map(id => group.contacts.find(c => c.id === id))
+      .filter((c): c is FixtureContact => !!c);
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push(`${req.method} ${url.pathname}`);
+
+    if (expired && url.pathname !== '/login') {
+      res.writeHead(302, { location: '/login' });
+      res.end();
+      return;
+    }
+    if (expireAfter?.(`${req.method} ${url.pathname}${url.search}`)) {
+      expired = true;
+    }
+
+    const cookieGroup = /(?:^|;\s*)group=([^;]+)/.exec(req.headers.cookie || '')?.[1];
+    const selected = switchScope === 'context'
+      ? data.groups.find(g => g.id === cookieGroup) || data.groups[0]
+      : current;
+    const send = (status: number, type: string, body: string) => {
+      res.writeHead(status, { 'content-type': `${type}; charset=utf-8` });
+      res.end(body);
+    };
+    const html = (body: string) => send(200, 'text/html', body);
+
+    if (url.pathname === '/') {
+      html(layout('BotHunter', `
+    <a class="dark-link" href="${selected.url}">${escapeHtml(selected.name)}</a>
+    <div>ID: ${selected.identifier}</div>`));
+      return;
+    }
+
+    if (url.pathname === '/login') {
+      send(200, 'text/html', `<!DOCTYPE html>
+<html lang="ru">
+<head><meta charset="utf-8"><title>Вход</title></head>
+<body><a href="https://vk.com/authorize?client_id=1">Войти через ВКонтакте</a></body>
+</html>`);
+      return;
+    }
+
+    if (url.pathname === '/groups') {
+      const anchors = data.groups.map((g, i) => `
+    <a class="btn btn-light d-flex width-adaptive" onclick="smm.change_group_with_channel('${g.id}','VK')">
+      <div><div><div><div>
+        #${i + 1}
+        ${escapeHtml(g.name)}
+      </div></div></div></div>
+    </a>`).join('');
+      html(layout('Сообщества', `${anchors}
+    <script>
+      window.smm = {
+        change_group_with_channel: function (id) {
+          return fetch('/api/switch?id=' + encodeURIComponent(id), { method: 'POST' });
+        }
+      };
+    </script>`));
+      return;
+    }
+
+    if (url.pathname === '/api/switch' && req.method === 'POST') {
+      const group = data.groups.find(g => g.id === url.searchParams.get('id'));
+      if (!group) {
+        send(404, 'application/json', '{"ok":false}');
+        return;
+      }
+      current = group;
+      switches.push(group.id);
+      if (switchScope === 'context') {
+        res.setHeader('set-cookie', `group=${group.id}; Path=/`);
+      }
+      send(200, 'application/json', '{"ok":true}');
+      return;
+    }
+
+    if (url.pathname === '/contacts') {
+      if (broken.has(selected.id)) {
+        req.socket.destroy();
+        return;
+      }
+      html(renderContactsPage(selected, selected.contacts, data.pageSize, 'group', 'Контакты', shownOfTotal));
+      return;
+    }
+
+    if (url.pathname === '/contacts/lists') {
+      const anchors = selected.lists.map(l => `
+    <a class="link-dark-primary" onclick="nav('/contacts/lists/1/${l.id}')">
+      <h5>${escapeHtml(l.name)}</h5>
+      <span>${l.members.length}</span>
+    </a>`).join('');
+      html(layout('Списки', `${anchors}
+    <form id="list-create-form">
+      <input name="list_name" placeholder="Название списка">
+      <button type="submit" class="btn btn-primary">Создать список</button>
+    </form>
+    <script>
+      window.nav = function (href) { window.location.href = href; };
+      var createForm = document.getElementById('list-create-form');
+      createForm.addEventListener('submit', function (e) {
+        e.preventDefault();
+        fetch('/api/lists/create?name=' + encodeURIComponent(createForm.list_name.value), { method: 'POST' })
+          .then(function () { window.location.reload(); });
+      });
+    </script>`));
+      return;
+    }
+
+    if (url.pathname === '/api/lists/create' && req.method === 'POST') {
+      const list = { id: `n${++createdLists}`, name: url.searchParams.get('name') || '', members: [] };
+      selected.lists.push(list);
+      send(200, 'application/json', JSON.stringify({ id: list.id }));
+      return;
+    }
+
+    if (url.pathname === '/api/lists/import' && req.method === 'POST') {
+      const found = findList(url.searchParams.get('list') || '');
+      const failed = brokenImports.has(++importRequests);
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        if (failed) {
+          send(500, 'application/json', '{"ok":false}');
+          return;
+        }
+        if (!found) {
+          send(404, 'application/json', '{"ok":false}');
+          return;
+        }
+        // Добавить можно только подписчика сообщества, которого ещё нет в списке
+        let added = 0;
+        let rejected = 0;
+        for (const id of body.split(/\s+/).filter(Boolean)) {
+          if (found.group.contacts.some(c => c.id === id) && !found.list.members.includes(id)) {
+            found.list.members.push(id);
+            added++;
+          } else {
+            rejected++;
+          }
+        }
+        send(200, 'application/json', JSON.stringify({ added, rejected }));
+      });
+      return;
+    }
+
+    const listMatch = url.pathname.match(/^\/contacts\/lists\/1\/(\w+)$/);
+    if (listMatch) {
+      const found = findList(listMatch[1]);
+      if (!found) {
+        send(404, 'text/html', layout('Не найдено', '<p>Список не найден</p>'));
+        return;
+      }
+      html(renderContactsPage(found.group, listContacts(found.group, found.list), data.pageSize, `list:${found.list.id}`, found.list.name, shownOfTotal));
+      return;
+    }
+
+    if (url.pathname === '/contacts/page') {
+      const source = url.searchParams.get('source') || 'group';
+      const n = Math.max(1, Number(url.searchParams.get('n')) || 1);
+      const found = source.startsWith('list:') ? findList(source.slice(5)) : null;
+      const group = found ? found.group : selected;
+      const contacts = found ? listContacts(found.group, found.list) : selected.contacts;
+      const slice = contacts.slice((n - 1) * data.pageSize, n * data.pageSize);
+      if (shortPages.delete(n)) slice.pop();
+
+      send(200, 'application/json', JSON.stringify({
+        items: slice.map(c => {
+          const [firstName, ...rest] = c.name.split(' ');
+          return { vk_id: Number(c.id), first_name: firstName, last_name: rest.join(' '), subscribed_at: c.subscribedAt, tags: c.tags };
+        }),
+        html: renderRows(group, slice),
+        has_next: n * data.pageSize < contacts.length,
+      }));
+      return;
+    }
+
+    send(404, 'text/html', layout('Не найдено', '<p>Страница не найдена</p>'));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    data,
+    currentGroup: () => current,
+    switches,
+    requests,
+    broken,
+    shortPages,
+    brokenImports,
+    expireSessionAfter(match) {
+      expireAfter = match;
+    },
+    showShownOfTotal() {
+      shownOfTotal = true;
+    },
+    reset() {
+      current = data.groups[0];
+      switches.length = 0;
+      requests.length = 0;
+      broken.clear();
+      shortPages.clear();
+      brokenImports.clear();
+      importRequests = 0;
+      data.groups.forEach((g, i) => { g.lists = JSON.parse(initialLists[i]); });
+      createdLists = 0;
+      expireAfter = null;
+      expired = false;
+      shownOfTotal = false;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(e => (e ? reject(e) : resolve()));
+      server.closeAllConnections();
+    }),
+  };
+}
+
+export { startFixtureSite, loadFixture };
+export type { SwitchScope, FixtureSite, FixtureData, FixtureGroup, FixtureList, FixtureContact };
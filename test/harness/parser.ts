@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { chromium } from 'playwright';
+import { BotHunterVKParser, type ParserConfig } from '../../bothunter-vk-simple';
+
+/**
+ * Есть ли локально браузер Playwright (иначе браузерные тесты пропускаются)
+ */
+function hasChromium(): boolean {
+  try {
+    return fs.existsSync(chromium.executablePath());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Парсер для тестов: безголовый, все файлы во временной папке
+ */
+interface TestParser {
+  parser: BotHunterVKParser;
+  /** Временная папка с выгрузками, сессией и историей */
+  dir: string;
+  /** Файлы выгрузок с данным префиксом, например bothunter_ids_ */
+  outputFiles(prefix: string): string[];
+  /** Удалить временную папку */
+  cleanup(): void;
+}
+
+/**
+ * Создание парсера, направленного на фикстуру или HAR
+ * @param config - Переопределения конфигурации (обычно baseUrl, mode, replayHar)
+ *   или функция от временной папки, если пути должны лежать в ней
+ */
+function createTestParser(config: Partial<ParserConfig> | ((dir: string) => Partial<ParserConfig>) = {}): TestParser {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-test-'));
+  const overrides = typeof config === 'function' ? config(dir) : config;
+
+  const parser = new BotHunterVKParser({
+    baseUrl: '',
+    headless: true,
+    outputFile: path.join(dir, 'bothunter_results.json'),
+    sessionPath: path.join(dir, 'session'),
+    waitAfterSwitchMs: 100,
+    requestIntervalMs: 50,
+    retryDelayMs: 10,
+    historyDb: '',
+    ...overrides,
+  });
+
+  return {
+    parser,
+    dir,
+    outputFiles: prefix => fs.readdirSync(dir)
+      .filter(name => name.startsWith(prefix))
+      .sort()
+      .map(name => path.join(dir, name)),
+    cleanup: () => fs.rmSync(dir, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * ID из txt-выгрузки в исходном порядке
+ */
+function readIds(filePath: string): string[] {
+  return fs.readFileSync(filePath, 'utf-8').split('\n').filter(Boolean);
+}
+
+export { hasChromium, createTestParser, readIds };
+export type { TestParser };
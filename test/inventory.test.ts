@@ -0,0 +1,46 @@
+import { describe, test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildInventory, writeInventory, DEFAULT_LIST_FILTERS } from '../inventory';
+
+describe('Каталог сообществ и списков', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-inventory-'));
+  const groups = [{ id: '1', name: 'Первое' }, { id: '2', name: 'Второе; с точкой с запятой' }];
+  const lists = [
+    { name: 'В работе', href: '/contacts/lists/1/11', members: 12 },
+    { name: 'Клик по офферу', href: '/contacts/lists/1/14', members: 1204 },
+    { name: 'Архив', href: '/contacts/lists/1/15', members: null },
+  ];
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('каждое слово фильтра показывает свои списки, слово по умолчанию «клик» ловит «Клик по офферу»', () => {
+    const inventory = buildInventory(groups, new Set(['1']), lists, DEFAULT_LIST_FILTERS);
+
+    assert.deepEqual(inventory.groups.map(g => g.selected), [true, false]);
+    assert.deepEqual(inventory.lists.map(l => l.selected), [true, true, false]);
+    assert.deepEqual(inventory.lists[1].filters, ['клик по офферу', 'клик по оффер', 'клик']);
+    assert.deepEqual(inventory.listFilters.find(f => f.keyword === 'отказ')!.lists, []);
+    assert.equal(inventory.listFallback, false);
+  });
+
+  test('фильтр без совпадений выбирает все списки; CSV экранирует названия', () => {
+    const inventory = buildInventory(groups, new Set(['1', '2']), lists, ['Нет такого']);
+    assert.equal(inventory.listFallback, true);
+    assert.ok(inventory.lists.every(l => l.selected));
+
+    const [jsonPath, csvPath] = writeInventory(inventory, dir, '01012026100000');
+    assert.equal(path.basename(jsonPath), 'bothunter_inventory_01012026100000.json');
+    assert.deepEqual(JSON.parse(fs.readFileSync(jsonPath, 'utf-8')).lists, inventory.lists);
+
+    const rows = fs.readFileSync(csvPath, 'utf-8').replace(/^\uFEFF/, '').split('\n');
+    assert.equal(rows[0], 'type,id,name,href,members,selected,filters');
+    assert.equal(rows[2], 'group,2,"Второе; с точкой с запятой",,,true,');
+    assert.equal(rows[4], 'list,,Клик по офферу,/contacts/lists/1/14,1204,true,');
+    assert.equal(rows[5], 'list,,Архив,/contacts/lists/1/15,,true,');
+  });
+});
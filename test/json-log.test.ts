@@ -0,0 +1,55 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { enableJsonLog, logParserEvents, type JsonLogLine, type JsonEventLine } from '../json-log';
+import type { ParserEvents } from '../bothunter-vk-simple';
+
+/**
+ * Строки JSON Lines, записанные в поток
+ */
+function readLines<T>(out: PassThrough): T[] {
+  const text = (out.read() as Buffer | null)?.toString('utf-8') || '';
+  return text.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
+
+describe('JSON-лог', () => {
+  test('строки консоли становятся JSON с уровнем, после восстановления — обычный вывод', () => {
+    const out = new PassThrough();
+    const original = console.log;
+    const restore = enableJsonLog(out);
+    try {
+      console.log('📄 Обработка страницы %d...', 3);
+      console.error('❌ Ошибка:', new Error('сбой'));
+      console.log('');
+    } finally {
+      restore();
+    }
+
+    const lines = readLines<JsonLogLine>(out);
+    assert.equal(lines.length, 2);
+    assert.equal(lines[0].level, 'info');
+    assert.equal(lines[0].msg, '📄 Обработка страницы 3...');
+    assert.equal(lines[1].level, 'error');
+    assert.match(lines[1].msg, /сбой/);
+    assert.ok(!Number.isNaN(Date.parse(lines[0].ts)));
+    assert.equal(console.log, original);
+  });
+
+  test('события парсера пишутся с именем события, ошибки — именем и текстом', () => {
+    const out = new PassThrough();
+    const parser = new EventEmitter<ParserEvents>();
+    const off = logParserEvents(parser, out);
+
+    parser.emit('idsFound', { key: '1', label: 'group_A', page: 2, ids: ['10', '11'], newIds: 1, total: 5 });
+    parser.emit('error', { item: { kind: 'list', key: '/l/1', label: 'list_A' }, error: new Error('Timeout'), fatal: false });
+    off();
+    parser.emit('page', { key: '1', label: 'group_A', page: 3 });
+
+    const lines = readLines<JsonEventLine>(out);
+    assert.deepEqual(lines.map(l => l.event), ['idsFound', 'error']);
+    assert.deepEqual(lines[0].ids, ['10', '11']);
+    assert.deepEqual(lines[1].error, { name: 'Error', message: 'Timeout' });
+    assert.equal(parser.listenerCount('page'), 0);
+  });
+});
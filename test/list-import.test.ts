@@ -0,0 +1,35 @@
+import { describe, test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ListImportError, readImportIds, chunkIds, parseImportMessage } from '../list-import';
+import { DEFAULT_SITE_PROFILE } from '../site-profile';
+
+describe('Загрузка ID в список', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-import-'));
+  const { importAccepted, importRejected } = DEFAULT_SITE_PROFILE.patterns;
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('файл: числовые ID и ссылки vk.com/idN без повторов, прочие строки отдельно', () => {
+    const file = path.join(dir, 'ids.txt');
+    fs.writeFileSync(file, '101\nhttps://vk.com/id202\n101\nm.vk.com/id303\nclub42\n\n');
+
+    assert.deepEqual(readImportIds(file), { ids: ['101', '202', '303'], invalid: ['club42'] });
+    assert.throws(() => readImportIds(path.join(dir, 'missing.txt')), ListImportError);
+  });
+
+  test('пакеты по batch-size, последний — остаток', () => {
+    assert.deepEqual(chunkIds(['1', '2', '3', '4', '5'], 2), [['1', '2'], ['3', '4'], ['5']]);
+    assert.deepEqual(chunkIds([], 100), []);
+  });
+
+  test('итог из сообщения сайта; без числа принятых — ошибка', () => {
+    assert.deepEqual(parseImportMessage('Добавлено: 12, отклонено: 3', importAccepted, importRejected), { accepted: 12, rejected: 3 });
+    assert.deepEqual(parseImportMessage('Принято 7 контактов', importAccepted, importRejected), { accepted: 7, rejected: 0 });
+    assert.throws(() => parseImportMessage('  ', importAccepted, importRejected), /\(пусто\)/);
+  });
+});
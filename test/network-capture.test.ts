@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractContactsFromJson, extractIdsFromHtml, extractIdsFromJson } from '../network-capture';
+
+test('extractIdsFromJson берёт ID только из ключей пользователя и строк контактов', () => {
+  const ids = extractIdsFromJson({
+    group_id: 100200,
+    items: [
+      { vk_id: 23473519, first_name: 'Иван' },
+      { id: 51088480, first_name: 'Мария' },
+      { id: 7, title: 'Не контакт' },
+    ],
+    html: '<a href="https://vk.com/id22170900">Олег</a>',
+  });
+  assert.deepEqual(Array.from(ids).sort(), ['22170900', '23473519', '51088480']);
+});
+
+test('extractIdsFromHtml находит ссылки на профили и data-атрибуты', () => {
+  const ids = extractIdsFromHtml('<tr data-user-id="30000001"><a href="https://vk.com/id30000002">x</a></tr> ID: 100200');
+  assert.deepEqual(Array.from(ids).sort(), ['30000001', '30000002']);
+});
+
+test('extractContactsFromJson собирает поля записи и сливает дубли', () => {
+  const contacts = extractContactsFromJson([
+    { vk_id: 23473519, first_name: 'Иван', last_name: 'Петров', subscribed_at: '01.11.2025 12:04', tags: ['vip'] },
+    { vk_id: '23473519', first_name: 'Иван', lists: [{ name: 'Одобрен' }] },
+  ]);
+
+  const ivan = contacts.get('23473519')!;
+  assert.equal(contacts.size, 1);
+  assert.equal(ivan.name, 'Иван Петров');
+  assert.equal(ivan.subscribedAt, '01.11.2025 12:04');
+  assert.deepEqual(ivan.tags, ['vip']);
+  assert.deepEqual(ivan.lists, ['Одобрен']);
+});
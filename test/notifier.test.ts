@@ -0,0 +1,179 @@
+import { describe, test, before, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { Notifier, formatTelegramText, type RunNotification } from '../notifier';
+
+/**
+ * Тело sendMessage в Bot API
+ */
+interface TelegramMessage {
+  chat_id: string;
+  text: string;
+  disable_web_page_preview: boolean;
+}
+
+/**
+ * Принятый сервером запрос: разобранное тело (JSON или multipart)
+ */
+interface Received {
+  url: string;
+  /** Вебхук — RunNotification, Telegram — TelegramMessage */
+  json: RunNotification | TelegramMessage | null;
+  form: FormData | null;
+}
+
+/**
+ * Локальный сервер в роли вебхука и Bot API; /fail всегда отвечает 500
+ */
+function startServer(received: Received[]): Promise<http.Server> {
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+    const contentType = req.headers['content-type'] || '';
+
+    received.push({
+      url: req.url || '',
+      json: contentType.startsWith('application/json') ? JSON.parse(body.toString('utf-8')) : null,
+      form: contentType.startsWith('multipart/form-data')
+        ? await new Response(body, { headers: { 'content-type': contentType } }).formData()
+        : null,
+    });
+
+    res.writeHead(req.url?.startsWith('/fail') ? 500 : 200, { 'content-type': 'application/json' });
+    res.end('{"ok":true}');
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function notification(overrides: Partial<RunNotification> = {}): RunNotification {
+  return {
+    event: 'finished',
+    mode: 'groups',
+    startedAt: '2026-01-01T10:00:00.000Z',
+    finishedAt: '2026-01-01T10:01:30.000Z',
+    durationSec: 90,
+    succeeded: 1,
+    failed: 1,
+    fatalError: null,
+    exports: [{ label: 'group_Первое', ids: 2, file: '/tmp/a.txt', files: ['/tmp/a.txt'], completeness: null }],
+    failures: [{ kind: 'group', key: '2', label: 'group_Второе', error: 'Timeout' }],
+    reportFile: null,
+    ...overrides,
+  };
+}
+
+describe('Уведомления о прогоне', () => {
+  const received: Received[] = [];
+  let server: http.Server;
+  let baseUrl: string;
+  let tmpDir: string;
+  let idsFile: string;
+
+  before(async () => {
+    // Эмодзи в логе не нужны и мешают раннеру
+    mock.method(console, 'log', () => {});
+    server = await startServer(received);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-notify-'));
+    idsFile = path.join(tmpDir, 'bothunter_ids_group_Первое.txt');
+    fs.writeFileSync(idsFile, '1\n2\n', 'utf-8');
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  test('вебхук получает JSON, с вложениями — multipart с payload и файлами', async () => {
+    const retry = { retries: 0, baseDelayMs: 0 };
+    await new Notifier({ webhooks: [`${baseUrl}/hook`], telegram: null, attachFiles: false, retry })
+      .send(notification(), [idsFile]);
+
+    assert.equal(received.length, 1);
+    const payload = received[0].json as RunNotification;
+    assert.equal(payload.mode, 'groups');
+    assert.equal(payload.exports[0].ids, 2);
+    assert.equal(payload.failures[0].label, 'group_Второе');
+
+    received.length = 0;
+    await new Notifier({ webhooks: [`${baseUrl}/hook`], telegram: null, attachFiles: true, retry })
+      .send(notification(), [idsFile, path.join(tmpDir, 'missing.txt')]);
+
+    const form = received[0].form!;
+    assert.equal(JSON.parse(form.get('payload') as string).event, 'finished');
+    const files = form.getAll('files') as File[];
+    assert.deepEqual(files.map(f => f.name), ['bothunter_ids_group_Первое.txt']);
+    assert.equal(await files[0].text(), '1\n2\n');
+  });
+
+  test('Telegram: сообщение с итогами и по документу на каждый файл', async () => {
+    const notifier = new Notifier({
+      webhooks: [],
+      telegram: { token: '123:secret', chatId: '-100500', apiUrl: `${baseUrl}/` },
+      attachFiles: true,
+      retry: { retries: 0, baseDelayMs: 0 },
+    });
+    await notifier.send(notification(), [idsFile]);
+
+    assert.deepEqual(received.map(r => r.url), ['/bot123:secret/sendMessage', '/bot123:secret/sendDocument']);
+    const message = received[0].json as TelegramMessage;
+    assert.equal(message.chat_id, '-100500');
+    assert.match(message.text, /group_Первое: 2 ID/);
+    assert.match(message.text, /✖ group_Второе: Timeout/);
+    assert.equal(received[1].form!.get('chat_id'), '-100500');
+    assert.equal((received[1].form!.get('document') as File).name, 'bothunter_ids_group_Первое.txt');
+  });
+
+  test('недоступный получатель не роняет отправку остальным и токен не попадает в лог', async () => {
+    const logged: string[] = [];
+    mock.method(console, 'log', (line: string) => logged.push(line));
+
+    const notifier = new Notifier({
+      webhooks: [`${baseUrl}/fail`, `${baseUrl}/hook`],
+      telegram: { token: '123:secret', chatId: '1', apiUrl: `${baseUrl}/fail` },
+      attachFiles: false,
+      retry: { retries: 1, baseDelayMs: 0 },
+    });
+    await notifier.send(notification({ event: 'failed', fatalError: 'сессия истекла' }));
+
+    // Два запроса на сбойный вебхук (с повтором), один на рабочий, два на Telegram
+    assert.equal(received.filter(r => r.url === '/fail').length, 2);
+    assert.equal(received.filter(r => r.url === '/hook').length, 1);
+    assert.equal(received.filter(r => r.url.startsWith('/fail/bot')).length, 2);
+    assert.ok(!logged.some(line => line.includes('secret')));
+  });
+
+  test('неразбираемый адрес вебхука только предупреждает в логе', async () => {
+    const logged: string[] = [];
+    mock.method(console, 'log', (line: string) => logged.push(line));
+
+    const notifier = new Notifier({
+      webhooks: ['http://bad host/hook', `${baseUrl}/hook`],
+      telegram: null,
+      attachFiles: false,
+      retry: { retries: 0, baseDelayMs: 0 },
+    });
+    await notifier.send(notification());
+
+    assert.equal(received.filter(r => r.url === '/hook').length, 1);
+    assert.ok(logged.includes('⚠️ Вебхук: некорректный адрес'));
+  });
+
+  test('длинный список выгрузок сворачивается до лимита сообщения', () => {
+    const exports = Array.from({ length: 500 }, (_, i) => ({ label: `group_${i}`, ids: i, file: '', files: [], completeness: null }));
+    const text = formatTelegramText(notification({ exports, failures: [] }));
+
+    assert.ok(text.length <= 4096);
+    assert.match(text, /… и ещё \d+$/);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OverlapError, operandsFromRunReport, latestGroupsReport, buildOverlap, writeOverlap } from '../overlap';
+import { createEncryptionKey, isEncrypted, readSecureFile } from '../encryption';
+
+describe('Пересечение аудиторий сообществ', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-overlap-'));
+  const operand = (name: string, ids: string[]) => ({ name, source: `${name}.txt`, ids: new Set(ids) });
+  const operands = [
+    operand('group_A', ['1', '2', '3', '4']),
+    operand('group_B', ['3', '4', '5']),
+    operand('group_C', ['4', '6']),
+  ];
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('матрица пар, уникальные аудитории, охват и пользователи в N сообществах', () => {
+    const report = buildOverlap(operands, 2);
+
+    assert.deepEqual(report.pairs, [
+      { a: 'group_A', b: 'group_B', common: 2, jaccard: 0.4 },
+      { a: 'group_A', b: 'group_C', common: 1, jaccard: 0.2 },
+      { a: 'group_B', b: 'group_C', common: 1, jaccard: 0.25 },
+    ]);
+    assert.deepEqual(report.communities.map(c => c.uniqueIds), [['1', '2'], ['5'], ['6']]);
+    assert.equal(report.reach, 6);
+    assert.deepEqual(report.distribution, [{ communities: 1, users: 4 }, { communities: 2, users: 1 }, { communities: 3, users: 1 }]);
+    assert.deepEqual(report.users, [
+      { id: '4', communities: ['group_A', 'group_B', 'group_C'] },
+      { id: '3', communities: ['group_A', 'group_B'] },
+    ]);
+    assert.deepEqual(buildOverlap(operands, 3).users.map(u => u.id), ['4']);
+    assert.throws(() => buildOverlap(operands.slice(0, 1)), OverlapError);
+  });
+
+  test('выгрузки берутся из последнего отчёта groups; пишутся JSON, CSV и HTML', () => {
+    fs.writeFileSync(path.join(dir, 'bothunter_ids_01012026100000_group_A_abc123.txt'), '1\n2\n3');
+    fs.writeFileSync(path.join(dir, 'bothunter_ids_01012026100000_group_B_def456.txt'), '3\n4');
+    const items = [
+      { kind: 'group', label: 'group_A', status: 'success', file: '/elsewhere/bothunter_ids_01012026100000_group_A_abc123.txt' },
+      { kind: 'group', label: 'group_B', status: 'success', file: 'bothunter_ids_01012026100000_group_B_def456.txt' },
+      { kind: 'group', label: 'group_<C>', status: 'failed' },
+    ];
+    fs.writeFileSync(path.join(dir, 'bothunter_report_01012026100000.json'), JSON.stringify({ mode: 'groups', items }));
+    fs.writeFileSync(path.join(dir, 'bothunter_report_02012026100000.json'), JSON.stringify({ mode: 'lists', items: [] }));
+
+    const reportPath = latestGroupsReport(dir)!;
+    assert.equal(path.basename(reportPath), 'bothunter_report_01012026100000.json');
+    const { operands: fromRun } = operandsFromRunReport(reportPath);
+    assert.deepEqual(fromRun.map(o => [o.name, o.ids.size]), [['group_A', 3], ['group_B', 2]]);
+
+    const [jsonPath, csvPath, htmlPath] = writeOverlap(buildOverlap(fromRun), dir, '03012026100000', null);
+    assert.equal(JSON.parse(fs.readFileSync(jsonPath, 'utf-8')).reach, 4);
+    const rows = fs.readFileSync(csvPath, 'utf-8').replace(/^\uFEFF/, '').split('\n');
+    assert.deepEqual(rows, ['a,b,a_size,b_size,common,jaccard', 'group_A,group_B,3,2,1,0.25']);
+    const html = fs.readFileSync(htmlPath, 'utf-8');
+    assert.ok(html.includes('Охват без повторов: <b>4</b>'));
+    assert.ok(!/<(script|link)\b/.test(html));
+  });
+
+  test('с ключом шифруются JSON, CSV и HTML', () => {
+    const key = createEncryptionKey('секрет');
+    const files = writeOverlap(buildOverlap(operands), dir, '04012026100000', key);
+
+    for (const file of files) {
+      assert.ok(isEncrypted(fs.readFileSync(file)), `не зашифрован: ${file}`);
+    }
+    assert.ok(readSecureFile(files[1], key).includes('group_A,group_B'));
+  });
+});
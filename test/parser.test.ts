@@ -0,0 +1,457 @@
+import { describe, test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryStore } from '../history-store';
+import { slugifyLabel, readIdsFile } from '../diff';
+import { createEncryptionKey, isEncrypted, readSecureFile } from '../encryption';
+import { SessionExpiredError, type ParserConfig } from '../bothunter-vk-simple';
+import type { RunManifestData } from '../run-manifest';
+import type { Inventory } from '../inventory';
+import { startFixtureSite, type FixtureSite, type FixtureGroup } from './harness/fixture-site';
+import { createTestParser, hasChromium, readIds, type TestParser } from './harness/parser';
+
+const skip = hasChromium() ? false : 'Chromium не установлен (npm run install:playwright)';
+
+/**
+ * ID контактов сообщества по порядку на сайте
+ */
+const contactIds = (group: FixtureGroup) => group.contacts.map(c => c.id);
+
+/**
+ * ID участников списка по названию
+ */
+const listIds = (group: FixtureGroup, name: string) => group.lists.find(l => l.name === name)!.members;
+
+describe('BotHunterVKParser на фикстуре сайта', { skip }, () => {
+  let site: FixtureSite;
+  let current: TestParser | null = null;
+
+  const makeParser = (config: Partial<ParserConfig> | ((dir: string) => Partial<ParserConfig>) = {}) => {
+    current = createTestParser(dir => ({
+      baseUrl: site.url,
+      ...(typeof config === 'function' ? config(dir) : config),
+    }));
+    return current;
+  };
+
+  const closeCurrent = async () => {
+    if (!current) return;
+    await current.parser.close();
+    current.cleanup();
+    current = null;
+  };
+
+  before(async () => {
+    site = await startFixtureSite();
+  });
+
+  after(async () => {
+    await closeCurrent();
+    await site.close();
+  });
+
+  beforeEach(async () => {
+    await closeCurrent();
+    site.reset();
+  });
+
+  test('checkAuth видит меню пользователя на главной', async () => {
+    const { parser } = makeParser();
+    await parser.init();
+    assert.equal(await parser.checkAuth(), true);
+    await parser.close();
+  });
+
+  test('extractUserIds берёт ID первой страницы из ответа сервера', async () => {
+    const { parser } = makeParser({ idStrategy: 'network' });
+    await parser.init();
+    await parser['page']!.goto(`${site.url}/contacts`, { waitUntil: 'networkidle' });
+
+    const ids = await parser.extractUserIds();
+    const expected = contactIds(site.data.groups[0]).slice(0, site.data.pageSize);
+    assert.deepEqual(ids.sort(), expected.sort());
+    await parser.close();
+  });
+
+  test('extractUserIds со стратегией dom находит ссылки на профили', async () => {
+    const { parser } = makeParser({ idStrategy: 'dom' });
+    await parser.init();
+    await parser['page']!.goto(`${site.url}/contacts`, { waitUntil: 'networkidle' });
+
+    const ids = await parser.extractUserIds();
+    for (const id of contactIds(site.data.groups[0]).slice(0, site.data.pageSize)) {
+      assert.ok(ids.includes(id), `нет ID ${id}`);
+    }
+    await parser.close();
+  });
+
+  test('collectAllContactIds проходит пагинацию до последней страницы', async () => {
+    const { parser } = makeParser();
+    await parser.init();
+    await parser['page']!.goto(`${site.url}/contacts`, { waitUntil: 'networkidle' });
+
+    const ids = await parser['collectAllContactIds']();
+    assert.deepEqual(ids.sort(), contactIds(site.data.groups[0]).sort());
+
+    const ivan = parser['getContacts']().find(c => c.id === '23473519')!;
+    assert.equal(ivan.name, 'Иван Петров');
+    assert.equal(ivan.subscribedAt, '01.11.2025 12:04');
+    assert.deepEqual(ivan.tags, ['vip']);
+    assert.deepEqual(ivan.lists, ['Одобрен']);
+    await parser.close();
+  });
+
+  test('режим contacts останавливается на MAX_PAGES', async () => {
+    const t = makeParser({ mode: 'contacts', maxPages: 2 });
+    await t.parser.parse();
+
+    const result = JSON.parse(fs.readFileSync(path.join(t.dir, 'bothunter_results.json'), 'utf-8'));
+    assert.equal(result.totalUsers, site.data.pageSize * 2);
+    assert.equal(result.community.name, site.data.groups[0].name);
+    assert.equal(t.outputFiles('bothunter_ids_').length, 1);
+    assert.equal(result.completeness.status, 'incomplete');
+    assert.equal(result.completeness.maxPagesReached, true);
+    assert.equal(result.completeness.rescannedPages, 0);
+  });
+
+  test('с ключом шифрования сессия и выгрузки на диске зашифрованы и читаются обратно', async () => {
+    const t = makeParser({ mode: 'contacts', maxPages: 1, encryptionKey: 'секрет' });
+    await t.parser.init();
+    await t.parser.saveSession();
+    await t.parser.close();
+    await t.parser.parse();
+
+    const stateFile = path.join(t.dir, 'session', 'state.json');
+    for (const file of [stateFile, path.join(t.dir, 'bothunter_results.json'), ...t.outputFiles('bothunter_ids_')]) {
+      assert.ok(isEncrypted(fs.readFileSync(file)), `не зашифрован: ${file}`);
+    }
+    const key = createEncryptionKey('секрет');
+    assert.equal(readIdsFile(t.outputFiles('bothunter_ids_')[0], key).length, site.data.pageSize);
+    assert.ok(Array.isArray(JSON.parse(readSecureFile(stateFile, key)).cookies));
+    assert.throws(() => readIdsFile(t.outputFiles('bothunter_ids_')[0]), /зашифрован: задайте ENCRYPTION_KEY/);
+  });
+
+  test('недобор против счётчика сайта перепроверяет короткую страницу', async () => {
+    site.shortPages.add(2);
+    const t = makeParser({ mode: 'contacts' });
+    await t.parser.parse();
+
+    const result = JSON.parse(fs.readFileSync(path.join(t.dir, 'bothunter_results.json'), 'utf-8'));
+    assert.deepEqual(result.userIds.sort(), contactIds(site.data.groups[0]).sort());
+    assert.deepEqual(result.completeness, {
+      status: 'complete',
+      expected: site.data.groups[0].contacts.length,
+      actual: site.data.groups[0].contacts.length,
+      maxPagesReached: false,
+      rescannedPages: 1,
+    });
+  });
+
+  test('недобор в пределах RESCAN_THRESHOLD помечается неполным без перепроверки', async () => {
+    site.shortPages.add(2);
+    const t = makeParser({ mode: 'contacts', rescanThreshold: 50 });
+    await t.parser.parse();
+
+    const result = JSON.parse(fs.readFileSync(path.join(t.dir, 'bothunter_results.json'), 'utf-8'));
+    assert.equal(result.completeness.status, 'incomplete');
+    assert.equal(result.completeness.actual, site.data.groups[0].contacts.length - 1);
+    assert.equal(result.completeness.rescannedPages, 0);
+  });
+
+  test('счётчик «Показано N из M» сверяется с общим числом, а не с показанным', async () => {
+    site.showShownOfTotal();
+    const t = makeParser({ mode: 'contacts', maxPages: 1 });
+    await t.parser.parse();
+
+    const result = JSON.parse(fs.readFileSync(path.join(t.dir, 'bothunter_results.json'), 'utf-8'));
+    assert.equal(result.completeness.expected, site.data.groups[0].contacts.length);
+    assert.equal(result.completeness.actual, site.data.pageSize);
+    assert.equal(result.completeness.status, 'incomplete');
+  });
+
+  test('режим groups переключает каждое сообщество и выгружает его контакты', async () => {
+    const t = makeParser(dir => ({ mode: 'groups', historyDb: path.join(dir, 'history.db') }));
+    await t.parser.parse();
+
+    assert.deepEqual(site.switches, site.data.groups.map(g => g.id));
+
+    const exported = t.outputFiles('bothunter_ids_').map(f => readIds(f).sort());
+    const expected = site.data.groups.map(g => contactIds(g).sort());
+    assert.equal(exported.length, expected.length);
+    for (const ids of expected) {
+      assert.ok(exported.some(e => JSON.stringify(e) === JSON.stringify(ids)), `нет выгрузки ${ids.join(',')}`);
+    }
+
+    const store = new HistoryStore(path.join(t.dir, 'history.db'));
+    try {
+      const snapshots = store.listSnapshots();
+      assert.deepEqual(
+        snapshots.map(s => s.community).sort(),
+        site.data.groups.map(g => g.name).sort(),
+      );
+    } finally {
+      store.close();
+    }
+  });
+
+  test('RUN_DIRS пишет прогон в свою папку с манифестом и указателями latest/', async () => {
+    const t = makeParser({ mode: 'groups', runDirs: true });
+    await t.parser.parse();
+
+    assert.deepEqual(t.outputFiles('bothunter_'), []);
+    const [runDir] = fs.readdirSync(path.join(t.dir, 'runs'));
+    const manifest: RunManifestData = JSON.parse(fs.readFileSync(path.join(t.dir, 'runs', runDir, 'manifest.json'), 'utf-8'));
+    assert.equal(manifest.status, 'success');
+
+    const exported = manifest.files.filter(f => f.ids !== null);
+    assert.deepEqual(
+      exported.map(f => [f.label, f.ids, f.source?.community?.groupId]).sort(),
+      site.data.groups.map(g => [`group_${g.name}`, g.contacts.length, g.id]).sort(),
+    );
+    assert.ok(manifest.files.some(f => f.path.startsWith('bothunter_report_')));
+
+    for (const g of site.data.groups) {
+      const pointer = JSON.parse(fs.readFileSync(path.join(t.dir, 'latest', `${slugifyLabel(`group_${g.name}`, 100)}.json`), 'utf-8'));
+      assert.deepEqual(readIds(path.join(t.dir, pointer.file)).sort(), contactIds(g).sort());
+    }
+  });
+
+  test('CONCURRENCY при общем для аккаунта выборе сообщества обрабатывает по очереди', async () => {
+    const t = makeParser({ mode: 'groups', concurrency: 2 });
+    await t.parser.parse();
+
+    const exported = t.outputFiles('bothunter_ids_').map(f => readIds(f).sort());
+    for (const group of site.data.groups) {
+      assert.ok(exported.some(e => JSON.stringify(e) === JSON.stringify(contactIds(group).sort())), `нет выгрузки ${group.name}`);
+    }
+    assert.equal(exported.length, site.data.groups.length);
+  });
+
+  test('сбой сообщества не прерывает прогон и попадает в отчёт', async () => {
+    const [ok, failing] = site.data.groups;
+    site.broken.add(failing.id);
+
+    const t = makeParser({ mode: 'groups', retries: 1 });
+    const report = await t.parser.parse();
+
+    assert.equal(report.hasFailures, true);
+    assert.deepEqual(report.items.map(i => [i.key, i.status]), [[ok.id, 'success'], [failing.id, 'failed']]);
+    assert.equal(report.items[0].ids, ok.contacts.length);
+    assert.match(report.items[1].error || '', /2 попыт/);
+
+    assert.equal(t.outputFiles('bothunter_ids_').length, 1);
+    const saved = JSON.parse(fs.readFileSync(t.outputFiles('bothunter_report_')[0], 'utf-8'));
+    assert.equal(saved.failed, 1);
+    assert.equal(saved.succeeded, 1);
+  });
+
+  test('события groups: начало сообщества, страницы, ID и сохранение', async () => {
+    const t = makeParser({ mode: 'groups', maxPages: 1 });
+    const events: string[] = [];
+    t.parser.on('groupStart', g => events.push(`groupStart:${g.id}`));
+    t.parser.on('page', p => events.push(`page:${p.key}:${p.page}`));
+    t.parser.on('idsFound', p => events.push(`idsFound:${p.key}:${p.ids.length}`));
+    t.parser.on('itemSaved', s => events.push(`itemSaved:${s.ids}`));
+    await t.parser.parse();
+
+    const [first, second] = site.data.groups;
+    const pageSize = site.data.pageSize;
+    assert.deepEqual(events, [
+      `groupStart:${first.id}`, `page:${first.id}:1`, `idsFound:${first.id}:${pageSize}`, `itemSaved:${pageSize}`,
+      `groupStart:${second.id}`, `page:${second.id}:1`, `idsFound:${second.id}:${pageSize}`, `itemSaved:${pageSize}`,
+    ]);
+  });
+
+  test('stream отдаёт ID по страницам, а выход из цикла отменяет прогон', async () => {
+    const full = makeParser({ mode: 'contacts' });
+    const stream = full.parser.stream();
+    const pages: number[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      pages.push(next.value.page);
+      next = await stream.next();
+    }
+    assert.deepEqual(pages, [1, 2, 3]);
+    assert.equal(next.value.toJSON().succeeded, 1);
+    await closeCurrent();
+
+    const partial = makeParser({ mode: 'contacts' });
+    for await (const page of partial.parser.stream()) {
+      assert.equal(page.ids.length, site.data.pageSize);
+      break;
+    }
+    assert.equal(partial.outputFiles('bothunter_ids_').length, 0);
+  });
+
+  test('истёкшая посреди groups сессия без GUI прерывает прогон', async () => {
+    const [first, second] = site.data.groups;
+    site.expireSessionAfter(r => r === `POST /api/switch?id=${second.id}`);
+
+    const t = makeParser({ mode: 'groups' });
+    await assert.rejects(t.parser.parse(), SessionExpiredError);
+
+    const exported = t.outputFiles('bothunter_ids_').map(f => readIds(f).sort());
+    assert.deepEqual(exported, [contactIds(first).sort()]);
+    const saved = JSON.parse(fs.readFileSync(t.outputFiles('bothunter_report_')[0], 'utf-8'));
+    assert.match(saved.fatalError, /сессия истекла/);
+  });
+
+  test('редирект на вход при переходе по страницам не записывает выгрузку', async () => {
+    site.expireSessionAfter(r => r.startsWith('GET /contacts/page?source=group&n=2'));
+
+    const t = makeParser({ mode: 'contacts' });
+    await assert.rejects(t.parser.parse(), SessionExpiredError);
+
+    assert.equal(fs.existsSync(path.join(t.dir, 'bothunter_results.json')), false);
+    assert.equal(t.outputFiles('bothunter_ids_').length, 0);
+  });
+
+  test('режим lists выгружает только списки по фильтру', async () => {
+    const t = makeParser({ mode: 'lists', listFilters: ['одобрен', 'отказ'] });
+    await t.parser.parse();
+
+    const group = site.data.groups[0];
+    const exported = t.outputFiles('bothunter_ids_').map(f => readIds(f).sort());
+    assert.equal(exported.length, 2);
+    assert.ok(exported.some(e => JSON.stringify(e) === JSON.stringify([...listIds(group, 'Одобрен')].sort())));
+    assert.ok(exported.some(e => JSON.stringify(e) === JSON.stringify([...listIds(group, 'Отказ')].sort())));
+  });
+
+  test('режим lists берёт все списки, если фильтр ничего не нашёл', async () => {
+    const t = makeParser({ mode: 'lists', listFilters: ['нет такого списка'] });
+    await t.parser.parse();
+
+    assert.equal(t.outputFiles('bothunter_ids_').length, site.data.groups[0].lists.length);
+  });
+
+  test('режим group-lists выгружает списки каждого сообщества с названиями обоих в имени файла', async () => {
+    const [first, second] = site.data.groups;
+    const t = makeParser({ mode: 'group-lists', listFilters: ['одобрен'] });
+    const report = await t.parser.parse();
+
+    assert.deepEqual(site.switches, [first.id, second.id]);
+    assert.equal(report.items.length, 2);
+
+    const files = t.outputFiles('bothunter_ids_');
+    const secondFile = files.find(f => path.basename(f).includes('Птичка_Наличка_list_Одобрен'));
+    assert.ok(secondFile, `нет файла списка второго сообщества: ${files.join(', ')}`);
+    assert.deepEqual(readIds(secondFile).sort(), [...listIds(second, 'Одобрен')].sort());
+  });
+
+  test('import в dry-run сверяет с существующим списком и ничего не отправляет', async () => {
+    const [, second] = site.data.groups;
+    const { parser } = makeParser();
+    const result = await parser.importIds({ ids: ['40000002', '40000001'], list: 'одобрен', group: second.id, dryRun: true });
+
+    assert.deepEqual(site.switches, [second.id]);
+    assert.equal(result.created, false);
+    assert.deepEqual([result.alreadyInList, result.toAdd, result.batches], [1, 1, 1]);
+    assert.ok(!site.requests.some(r => r.startsWith('POST /api/lists/')));
+    assert.deepEqual(listIds(second, 'Одобрен'), ['40000002']);
+  });
+
+  test('import создаёт список и добавляет ID пакетами; не подписчиков сайт отклоняет', async () => {
+    const [, second] = site.data.groups;
+    const { parser } = makeParser();
+    const result = await parser.importIds({ ids: ['40000001', '40000003', '99999999'], list: 'Загрузка', group: second.name, batchSize: 2 });
+
+    assert.equal(result.created, true);
+    assert.deepEqual([result.batches, result.accepted, result.rejected], [2, 2, 1]);
+    assert.deepEqual(listIds(second, 'Загрузка'), ['40000001', '40000003']);
+  });
+
+  test('import при сбое пакета останавливается и возвращает итог отправленных до него', async () => {
+    const [, second] = site.data.groups;
+    site.brokenImports.add(2);
+    const { parser } = makeParser();
+    const result = await parser.importIds({ ids: ['40000001', '99999999', '40000003'], list: 'Загрузка', group: second.id, batchSize: 2 });
+
+    assert.match(result.error || '', /^пакет 2\/2: /);
+    assert.deepEqual([result.sent, result.batches, result.accepted, result.rejected], [2, 1, 1, 1]);
+    assert.deepEqual(listIds(second, 'Загрузка'), ['40000001']);
+  });
+
+  test('GROUPS_EXCLUDE убирает сообщества по регулярному выражению, GROUPS_FILTER принимает ID', async () => {
+    const [first, second] = site.data.groups;
+    const t = makeParser({ mode: 'groups', groupFilters: [first.id, '^птичка'], groupExcludeFilters: ['займ\\s+онлайн'] });
+    await t.parser.parse();
+
+    assert.deepEqual(site.switches, [second.id]);
+    assert.equal(t.outputFiles('bothunter_ids_').length, 1);
+  });
+
+  test('режим inventory пишет каталог без обхода контактов и показывает, что находит каждый фильтр', async () => {
+    const [first, second] = site.data.groups;
+    const t = makeParser({
+      mode: 'inventory', listFilters: ['одобрен', 'клик'], groupExcludeFilters: ['^птичка'],
+      notifyWebhooks: [`${site.url}/hooks/bothunter`], retries: 0,
+    });
+    await t.parser.parse();
+
+    assert.ok(!site.requests.some(r => r.includes('/contacts/page')));
+    // Отчёта у inventory нет, но уведомление об итогах уходит
+    assert.ok(site.requests.includes('POST /hooks/bothunter'));
+    assert.deepEqual(site.switches, []);
+
+    const [jsonFile] = t.outputFiles('bothunter_inventory_').filter(f => f.endsWith('.json'));
+    const inventory: Inventory = JSON.parse(fs.readFileSync(jsonFile, 'utf-8'));
+    assert.deepEqual(inventory.groups.map(g => [g.id, g.selected]), [[first.id, true], [second.id, false]]);
+    assert.deepEqual(
+      inventory.lists.map(l => [l.name, l.members, l.selected]),
+      first.lists.map(l => [l.name, l.members.length, l.name === 'Одобрен' || l.name === 'Клик по офферу']),
+    );
+    assert.deepEqual(inventory.listFilters, [
+      { keyword: 'одобрен', lists: ['Одобрен'] },
+      { keyword: 'клик', lists: ['Клик по офферу'] },
+    ]);
+    assert.equal(t.outputFiles('bothunter_inventory_').filter(f => f.endsWith('.csv')).length, 1);
+  });
+
+  test('записанный HAR воспроизводится без обращения к сайту', async () => {
+    const recording = createTestParser(dir => ({ baseUrl: site.url, mode: 'contacts', recordHar: path.join(dir, 'contacts.har') }));
+    try {
+      await recording.parser.parse();
+      const recorded = JSON.parse(fs.readFileSync(path.join(recording.dir, 'bothunter_results.json'), 'utf-8'));
+
+      site.reset();
+      const t = makeParser({ mode: 'contacts', replayHar: path.join(recording.dir, 'contacts.har') });
+      await t.parser.parse();
+      const replayed = JSON.parse(fs.readFileSync(path.join(t.dir, 'bothunter_results.json'), 'utf-8'));
+
+      assert.deepEqual(replayed.userIds.sort(), recorded.userIds.sort());
+      assert.deepEqual(site.requests, []);
+    } finally {
+      recording.cleanup();
+    }
+  });
+});
+
+describe('параллельный режим groups при выборе сообщества в контексте', { skip }, () => {
+  let site: FixtureSite;
+
+  before(async () => {
+    site = await startFixtureSite(undefined, 'context');
+  });
+
+  after(async () => {
+    await site.close();
+  });
+
+  test('сообщества обрабатываются в отдельных контекстах', async () => {
+    const t = createTestParser({ baseUrl: site.url, mode: 'groups', concurrency: 2 });
+    try {
+      await t.parser.parse();
+
+      const exported = t.outputFiles('bothunter_ids_').map(f => readIds(f).sort());
+      assert.equal(exported.length, site.data.groups.length);
+      for (const group of site.data.groups) {
+        assert.ok(exported.some(e => JSON.stringify(e) === JSON.stringify(contactIds(group).sort())), `нет выгрузки ${group.name}`);
+      }
+      // Два переключения проверки независимости и по одному на каждое сообщество
+      assert.equal(site.switches.length, 2 + site.data.groups.length);
+    } finally {
+      t.cleanup();
+    }
+  });
+});
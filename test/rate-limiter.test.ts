@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter } from '../rate-limiter';
+
+test('RateLimiter разводит слоты не чаще интервала на всех ожидающих', async () => {
+  const limiter = new RateLimiter(50);
+  const started = Date.now();
+
+  const times = await Promise.all([0, 1, 2].map(async () => {
+    await limiter.acquire();
+    return Date.now() - started;
+  }));
+
+  times.sort((a, b) => a - b);
+  assert.ok(times[0] < 40, `первый слот без ожидания, а прошло ${times[0]} мс`);
+  assert.ok(times[1] >= 45, `второй слот через ${times[1]} мс`);
+  assert.ok(times[2] >= 95, `третий слот через ${times[2]} мс`);
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withRetry, RetryError } from '../retry';
+
+test('withRetry повторяет шаг до успеха', async () => {
+  let calls = 0;
+  const result = await withRetry('шаг', async attempt => {
+    calls++;
+    if (attempt < 2) throw new Error('timeout');
+    return 'ok';
+  }, { retries: 2, baseDelayMs: 1 });
+
+  assert.equal(result, 'ok');
+  assert.equal(calls, 3);
+});
+
+test('withRetry сдаётся после всех повторов с RetryError', async () => {
+  let calls = 0;
+  await assert.rejects(
+    withRetry('Переход на страницу 3', async () => {
+      calls++;
+      throw new Error('Timeout 30000ms exceeded.\nCall log: ...');
+    }, { retries: 1, baseDelayMs: 1 }),
+    (error: unknown) => {
+      assert.ok(error instanceof RetryError);
+      assert.equal(error.attempts, 2);
+      assert.equal(error.message, 'Переход на страницу 3: не удалось за 2 попыт. — Timeout 30000ms exceeded.');
+      return true;
+    },
+  );
+  assert.equal(calls, 2);
+});
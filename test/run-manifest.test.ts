@@ -0,0 +1,65 @@
+import { describe, test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { RunManifest, readLatestPointer, type RunManifestData } from '../run-manifest';
+import { findPreviousExport, listIdsFiles } from '../diff';
+
+describe('Папки прогонов и манифест', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-runs-'));
+  const config = { baseUrl: 'https://bot.example', mode: 'groups' as const, telegramBotToken: '123:secret', notifyWebhooks: ['https://hook/secret'] };
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const runOnce = (ids: string[], stamp: string) => {
+    const manifest = new RunManifest(dir, 'groups', config);
+    const idsFile = path.join(manifest.dir, `bothunter_ids_${stamp}_group_A_abc123.txt`);
+    const csvFile = path.join(manifest.dir, `bothunter_contacts_${stamp}_group_A_abc123.csv`);
+    fs.writeFileSync(idsFile, ids.join('\n'));
+    fs.writeFileSync(csvFile, 'id\n' + ids.join('\n'));
+    fs.writeFileSync(path.join(manifest.dir, `bothunter_report_${stamp}.json`), '{}');
+    manifest.addExport('group_A', ids.length, idsFile, [idsFile, csvFile], { community: { groupId: '1', name: 'A' }, list: null });
+    return { manifest, idsFile, manifestPath: manifest.finish('success') };
+  };
+
+  test('манифест: настройки без секретов, файлы с хешами, подписью и источником', () => {
+    const { manifest, idsFile, manifestPath } = runOnce(['1', '2', '3'], '01012026100000');
+    assert.equal(path.dirname(path.dirname(manifest.dir)), dir);
+
+    const data: RunManifestData = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    assert.equal(data.status, 'success');
+    assert.equal(data.config.baseUrl, 'https://bot.example');
+    assert.ok(!('telegramBotToken' in data.config) && !('notifyWebhooks' in data.config));
+
+    const ids = data.files.find(f => f.path === path.basename(idsFile))!;
+    assert.equal(ids.sha256, createHash('sha256').update(fs.readFileSync(idsFile)).digest('hex'));
+    assert.deepEqual([ids.label, ids.ids, ids.source?.community?.groupId], ['group_A', 3, '1']);
+    assert.deepEqual(data.files.map(f => [f.label, f.ids]), [['group_A', null], ['group_A', 3], [null, null]]);
+  });
+
+  test('манифест со статусом running пишется сразу и остаётся, если прогон не дошёл до конца', () => {
+    const manifest = new RunManifest(dir, 'lists', config);
+    const data: RunManifestData = JSON.parse(fs.readFileSync(path.join(manifest.dir, 'manifest.json'), 'utf-8'));
+    assert.equal(data.status, 'running');
+    assert.equal(data.finishedAt, null);
+    assert.ok(!('telegramBotToken' in data.config));
+  });
+
+  test('второй прогон — в новой папке; latest/ указывает на него, прошлый находится для сравнения', () => {
+    const first = listIdsFiles(dir)[0];
+    const { manifest, idsFile } = runOnce(['2', '3', '4', '5'], '01012026100000');
+    assert.notEqual(manifest.dir, path.dirname(first.filePath));
+
+    const pointer = readLatestPointer(dir, 'group_A')!;
+    assert.equal(path.join(dir, pointer.file), idsFile);
+    assert.equal(pointer.ids, 4);
+    assert.ok(fs.existsSync(path.join(dir, pointer.manifest)));
+
+    assert.equal(findPreviousExport(dir, 'group_A', idsFile)!.filePath, first.filePath);
+    assert.equal(readLatestPointer(dir, 'group_B'), null);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JobScheduler } from '../scheduler';
+import { parseCommandLine } from '../cli';
+import { RunReport } from '../run-report';
+import type { JobRunner } from '../api-server';
+import type { ParserConfig, ParseProgress } from '../bothunter-vk-simple';
+
+/**
+ * Подмена парсера: прогон завершается по release()
+ */
+class FakeRunner implements JobRunner {
+  readonly config: ParserConfig;
+  private finish!: () => void;
+  private done = new Promise<void>(resolve => (this.finish = resolve));
+
+  constructor(config: ParserConfig) {
+    this.config = config;
+  }
+
+  async parse(): Promise<RunReport> {
+    await this.done;
+    const report = new RunReport(this.config.mode || 'contacts');
+    report.success({ kind: 'group', key: '1', label: 'group_1', pages: 1, ids: 3 });
+    return report;
+  }
+
+  cancel(): void {
+    this.finish();
+  }
+
+  release(): void {
+    this.finish();
+  }
+
+  getProgress(): ParseProgress {
+    return { mode: this.config.mode || null, total: 0, done: 0, active: [] };
+  }
+}
+
+describe('JobScheduler', () => {
+  let dir: string;
+  let jobsFile: string;
+
+  const writeJobs = (jobs: unknown[]) => fs.writeFileSync(jobsFile, JSON.stringify({ jobs }), 'utf-8');
+
+  before(() => {
+    // Журнал планировщика в выводе тестов не нужен
+    mock.method(console, 'log', () => {});
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bothunter-schedule-'));
+    jobsFile = path.join(dir, 'jobs.json');
+  });
+
+  after(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('задания одного времени идут друг за другом, наложения пропускаются', async () => {
+    writeJobs([
+      { name: 'groups', cron: '0 * * * *', mode: 'groups', groupFilters: ['займ'], outputFile: path.join(dir, 'g', 'out.json') },
+      { name: 'lists', cron: '0 */2 * * *', mode: 'lists', listFilters: ['одобрен'], outputFormats: ['csv'] },
+    ]);
+    const runners: FakeRunner[] = [];
+    const scheduler = new JobScheduler({
+      jobsFile,
+      baseArgv: ['--history-db='],
+      env: {},
+      createRunner: config => {
+        const runner = new FakeRunner(config);
+        runners.push(runner);
+        return runner;
+      },
+    });
+
+    const start = new Date(2025, 10, 1, 9, 30);
+    scheduler['planned'].forEach(p => (p.nextRunAt = p.cron.next(start)));
+
+    // 10:00 — оба задания, по очереди
+    const batch = scheduler.tick(new Date(2025, 10, 1, 10, 0));
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(runners.length, 1);
+    assert.equal(runners[0].config.mode, 'groups');
+    assert.deepEqual(runners[0].config.groupFilters, ['займ']);
+    assert.equal(runners[0].config.outputFile, path.join(dir, 'g', 'out.json'));
+    assert.equal(runners[0].config.headless, true);
+
+    // 11:00 — groups ещё идёт: пропуск
+    await scheduler.tick(new Date(2025, 10, 1, 11, 0));
+
+    runners[0].release();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(runners.length, 2);
+    assert.deepEqual(runners[1].config.outputFormats, ['csv']);
+    runners[1].release();
+    await batch;
+
+    assert.deepEqual(scheduler.history().map(r => [r.job, r.status]), [
+      ['groups', 'skipped'],
+      ['groups', 'succeeded'],
+      ['lists', 'succeeded'],
+    ]);
+
+    const plan = scheduler.plan();
+    assert.equal(plan[0].nextRunAt, new Date(2025, 10, 1, 12, 0).toISOString());
+    assert.equal(plan[1].lastRun?.status, 'succeeded');
+
+    // История переживает перезапуск
+    const restarted = new JobScheduler({ jobsFile, baseArgv: [], env: {}, createRunner: config => new FakeRunner(config) });
+    assert.equal(restarted.history().length, 3);
+  });
+
+  test('ошибка создания парсера записывается как сбой запуска', async () => {
+    writeJobs([{ name: 'broken-account', cron: '@hourly', mode: 'groups' }]);
+    const scheduler = new JobScheduler({
+      jobsFile,
+      baseArgv: ['--history-db='],
+      env: {},
+      createRunner: () => {
+        throw new Error('не удалось прочитать профиль сайта');
+      },
+    });
+    scheduler['planned'].forEach(p => (p.nextRunAt = p.cron.next(new Date(2025, 10, 1, 9, 30))));
+
+    await scheduler.tick(new Date(2025, 10, 1, 10, 0));
+    const last = scheduler.history().at(-1)!;
+    assert.deepEqual([last.job, last.status], ['broken-account', 'failed']);
+    assert.match(last.error || '', /профиль сайта/);
+  });
+
+  test('некорректное задание останавливает запуск с именем задания', () => {
+    writeJobs([{ name: 'broken', cron: '0 25 * * *', mode: 'groups' }]);
+    assert.throws(() => new JobScheduler({ jobsFile, baseArgv: [], env: {}, createRunner: c => new FakeRunner(c) }), /broken.*часы/);
+
+    writeJobs([{ name: 'typo', cron: '@daily', mode: 'groups', listFilter: ['x'] }]);
+    assert.throws(() => new JobScheduler({ jobsFile, baseArgv: [], env: {}, createRunner: c => new FakeRunner(c) }), /typo.*listFilter/);
+
+    writeJobs([{ name: 'format', cron: '@daily', mode: 'lists', outputFormats: ['pdf'] }]);
+    assert.throws(() => new JobScheduler({ jobsFile, baseArgv: [], env: {}, createRunner: c => new FakeRunner(c) }), /format.*pdf/);
+  });
+
+  test('флаги для заданий теряют только подкоманду и действие, значения с тем же словом остаются', () => {
+    const cli = parseCommandLine(['--lists-filter', 'run', 'schedule', 'run', '--output-file', 'schedule'], {});
+    assert.deepEqual(cli.args, ['run']);
+    assert.deepEqual(cli.optionArgv, ['--lists-filter', 'run', '--output-file', 'schedule']);
+  });
+});